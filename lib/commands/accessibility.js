@@ -0,0 +1,195 @@
+import _ from 'lodash';
+import B from 'bluebird';
+import { DOMParser } from '@xmldom/xmldom';
+import { errors } from 'appium/driver';
+import { ELEMENT_NODE_TYPE, parseBounds } from '../helpers';
+
+// Android uses 160 dpi as the baseline density for density-independent pixels
+const BASELINE_DENSITY_DPI = 160;
+const DEFAULT_MIN_TOUCH_TARGET_SIZE_DP = 48;
+/** @type {import('./types').AccessibilityCheck[]} */
+const ACCESSIBILITY_CHECKS = [
+  'missingLabel',
+  'smallTouchTarget',
+  'duplicateDescription',
+  'unlabeledFocusable',
+];
+
+/**
+ * Audits the current screen for common accessibility issues. The page source
+ * is analyzed by the driver, so no additional tools need to be installed on the device.
+ * Elements, whose `displayed` attribute is `false`, are skipped.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').AccessibilityAuditOpts} [opts={}]
+ * @returns {Promise<import('./types').AccessibilityAuditResult>}
+ */
+export async function mobileAccessibilityAudit(opts = {}) {
+  const {
+    checks = ACCESSIBILITY_CHECKS,
+    minTouchTargetSize = DEFAULT_MIN_TOUCH_TARGET_SIZE_DP,
+  } = opts;
+  if (!_.isArray(checks) || _.isEmpty(checks) || !checks.every((check) => _.includes(ACCESSIBILITY_CHECKS, check))) {
+    throw new errors.InvalidArgumentError(
+      `'checks' must be a non-empty array of ${JSON.stringify(ACCESSIBILITY_CHECKS)} items. Got ${JSON.stringify(checks)}`
+    );
+  }
+  if (!_.isFinite(minTouchTargetSize) || minTouchTargetSize <= 0) {
+    throw new errors.InvalidArgumentError(
+      `'minTouchTargetSize' must be a positive number of density-independent pixels. Got ${minTouchTargetSize}`
+    );
+  }
+
+  const [source, density] = await B.all([this.getPageSource(), this.getDisplayDensity()]);
+  const pixelsPerDp = density / BASELINE_DENSITY_DPI;
+  const root = /** @type {Element} */ (
+    /** @type {unknown} */ (new DOMParser().parseFromString(source, 'text/xml').documentElement)
+  );
+  const labeledElements = root ? toLabeledElements(root) : new Set();
+  /** @type {import('./types').AccessibilityFinding[]} */
+  const findings = [];
+  /**
+   * @param {import('./types').AccessibilityCheck} check
+   * @param {Element} element
+   * @param {string} xpath
+   * @param {string} message
+   */
+  const report = (check, element, xpath, message) => {
+    if (_.includes(checks, check)) {
+      findings.push({
+        check,
+        message,
+        xpath,
+        bounds: element.getAttribute('bounds') || null,
+        className: element.getAttribute('class') || element.nodeName,
+      });
+    }
+  };
+  /**
+   * @param {Element} element
+   * @param {string} xpath
+   * @param {number} descriptionSharesCount The count of siblings with the same content description
+   */
+  const visit = (element, xpath, descriptionSharesCount) => {
+    const isClickable = isTrue(element, 'clickable') || isTrue(element, 'long-clickable');
+    const hasLabel = labeledElements.has(element);
+    if (isClickable && !hasLabel) {
+      report('missingLabel', element, xpath,
+        'The clickable element has no content description or text, so screen readers cannot announce it');
+    } else if (!isClickable && isTrue(element, 'focusable') && !hasLabel) {
+      report('unlabeledFocusable', element, xpath,
+        'The focusable element has no content description or text, so screen readers cannot announce it');
+    }
+    const rect = parseBounds(element.getAttribute('bounds'));
+    if (isClickable && rect && rect.width > 0 && rect.height > 0) {
+      const widthDp = Math.round(rect.width / pixelsPerDp);
+      const heightDp = Math.round(rect.height / pixelsPerDp);
+      if (widthDp < minTouchTargetSize || heightDp < minTouchTargetSize) {
+        report('smallTouchTarget', element, xpath,
+          `The touch target size is ${widthDp}x${heightDp}dp, ` +
+          `which is smaller than ${minTouchTargetSize}x${minTouchTargetSize}dp`);
+      }
+    }
+
+    if (descriptionSharesCount > 1) {
+      report('duplicateDescription', element, xpath,
+        `The content description '${element.getAttribute('content-desc')}' is shared by ` +
+        `${descriptionSharesCount} sibling elements, so screen reader users cannot tell them apart`);
+    }
+    visitChildren(element, xpath);
+  };
+  /**
+   * @param {Element} parent
+   * @param {string} parentXPath
+   */
+  const visitChildren = (parent, parentXPath) => {
+    const children = toVisibleChildren(parent);
+    const descriptionCounts = _.countBy(
+      children.map((child) => child.getAttribute('content-desc')).filter((description) => !_.isEmpty(description))
+    );
+    const childXPaths = toChildXPaths(children, parentXPath);
+    children.forEach((child, index) => visit(
+      child,
+      childXPaths[index],
+      descriptionCounts[child.getAttribute('content-desc') ?? ''] ?? 0
+    ));
+  };
+  if (root) {
+    visitChildren(root, `/${root.nodeName}`);
+  }
+  this.log.info(`The accessibility audit has found ${findings.length} issue(s)`);
+  return {density, findings};
+}
+
+// #region Internal Helpers
+
+/**
+ * @param {Element} element
+ * @param {string} name
+ * @returns {boolean}
+ */
+function isTrue(element, name) {
+  return element.getAttribute(name) === 'true';
+}
+
+/**
+ * Screen readers announce the text of descendants if the element itself has no label,
+ * so descendants are taken into account as well. Children are processed before
+ * their parents, so each element is only checked once.
+ *
+ * @param {Element} root
+ * @returns {Set<Element>} Visible elements having a label
+ */
+function toLabeledElements(root) {
+  /** @type {Set<Element>} */
+  const result = new Set();
+  /**
+   * @param {Element} element
+   * @returns {boolean}
+   */
+  const visit = (element) => {
+    // all children must be visited, so the check is not short-circuited
+    const childLabels = toVisibleChildren(element).map(visit);
+    const isLabeled = childLabels.includes(true)
+      || !_.isEmpty(_.trim(element.getAttribute('content-desc') ?? ''))
+      || !_.isEmpty(_.trim(element.getAttribute('text') ?? ''));
+    if (isLabeled) {
+      result.add(element);
+    }
+    return isLabeled;
+  };
+  visit(root);
+  return result;
+}
+
+/**
+ * @param {Element} element
+ * @returns {Element[]}
+ */
+function toVisibleChildren(element) {
+  return /** @type {Element[]} */ (Array.from(element.childNodes)
+    .filter((child) => child.nodeType === ELEMENT_NODE_TYPE))
+    .filter((child) => child.getAttribute('displayed') !== 'false');
+}
+
+/**
+ * Builds absolute XPaths of sibling elements. Positional predicates are
+ * calculated among all element siblings with the same tag name
+ *
+ * @param {Element[]} children Visible children of the same parent
+ * @param {string} parentXPath
+ * @returns {string[]}
+ */
+function toChildXPaths(children, parentXPath) {
+  return children.map((child) => {
+    const sameTagSiblings = Array.from(child.parentNode?.childNodes ?? [])
+      .filter((node) => node.nodeType === ELEMENT_NODE_TYPE && node.nodeName === child.nodeName);
+    return `${parentXPath}/${child.nodeName}[${sameTagSiblings.indexOf(child) + 1}]`;
+  });
+}
+
+// #endregion
+
+/**
+ * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ */
@@ -1,7 +1,33 @@
 import B from 'bluebird';
 import _ from 'lodash';
-import {PROTOCOLS} from 'appium/driver';
+import {PROTOCOLS, errors} from 'appium/driver';
 import {utils} from 'appium-android-driver';
+import {util} from 'appium/support';
+import {toActualError} from '../helpers';
+import {isSnapshotElementId} from '../lookup-snapshot';
+
+// Snapshot elements keep attribute names as they are in the page source
+/** @type {import('@appium/types').StringRecord<string>} */
+const SNAPSHOT_ATTRIBUTE_ALIASES = {
+  className: 'class',
+  contentDescription: 'content-desc',
+  longClickable: 'long-clickable',
+  resourceId: 'resource-id',
+};
+// The server handles requests one by one, so there is no point to send too many of them at once
+const MAX_CONCURRENT_PROPERTY_REQUESTS = 8;
+// Driver methods retrieving properties, which are not element attributes
+/** @type {import('@appium/types').StringRecord<'getText'|'getElementRect'|'getLocation'|'getSize'|'getName'|'elementDisplayed'|'elementEnabled'|'elementSelected'>} */
+const ELEMENT_PROPERTY_GETTERS = {
+  text: 'getText',
+  rect: 'getElementRect',
+  location: 'getLocation',
+  size: 'getSize',
+  name: 'getName',
+  displayed: 'elementDisplayed',
+  enabled: 'elementEnabled',
+  selected: 'elementSelected',
+};
 
 /**
  * @this {AndroidUiautomator2Driver}
@@ -23,6 +49,11 @@ export async function active() {
  * @returns {Promise<string?>}
  */
 export async function getAttribute(attribute, elementId) {
+  if (isSnapshotElementId(elementId)) {
+    const {attributes} = requireSnapshotElement.bind(this)(elementId);
+    const value = attributes[SNAPSHOT_ATTRIBUTE_ALIASES[attribute] ?? attribute];
+    return _.isUndefined(value) ? null : value;
+  }
   return String(
     await this.uiautomator2.jwproxy.command(
       `/element/${elementId}/attribute/${attribute}`,
@@ -65,6 +96,9 @@ export async function elementSelected(elementId) {
  * @returns {Promise<string>}
  */
 export async function getName(elementId) {
+  if (isSnapshotElementId(elementId)) {
+    return requireSnapshotElement.bind(this)(elementId).attributes.class;
+  }
   return /** @type {string} */ (
     await this.uiautomator2.jwproxy.command(
       `/element/${elementId}/name`,
@@ -80,6 +114,10 @@ export async function getName(elementId) {
  * @returns {Promise<import('@appium/types').Position>}
  */
 export async function getLocation(elementId) {
+  if (isSnapshotElementId(elementId)) {
+    const {x, y} = requireSnapshotElement.bind(this)(elementId).rect;
+    return {x, y};
+  }
   return /** @type {import('@appium/types').Position} */ (
     await this.uiautomator2.jwproxy.command(
       `/element/${elementId}/location`,
@@ -95,6 +133,10 @@ export async function getLocation(elementId) {
  * @returns {Promise<import('@appium/types').Size>}
  */
 export async function getSize(elementId) {
+  if (isSnapshotElementId(elementId)) {
+    const {width, height} = requireSnapshotElement.bind(this)(elementId).rect;
+    return {width, height};
+  }
   return /** @type {import('@appium/types').Size} */ (
     await this.uiautomator2.jwproxy.command(
       `/element/${elementId}/size`,
@@ -141,6 +183,9 @@ export async function setValueImmediate(keys, elementId) {
  * @returns {Promise<string>}
  */
 export async function getText(elementId) {
+  if (isSnapshotElementId(elementId)) {
+    return requireSnapshotElement.bind(this)(elementId).attributes.text ?? '';
+  }
   return String(
     await this.uiautomator2.jwproxy.command(
       `/element/${elementId}/text`,
@@ -156,6 +201,15 @@ export async function getText(elementId) {
  * @returns {Promise<void>}
  */
 export async function click(element) {
+  if (isSnapshotElementId(element)) {
+    // snapshot elements are unknown to the server, so their center is tapped instead
+    const {x, y, width, height} = requireSnapshotElement.bind(this)(element).rect;
+    await this.mobileClickGesture({
+      x: x + Math.trunc(width / 2),
+      y: y + Math.trunc(height / 2),
+    });
+    return;
+  }
   await this.uiautomator2.jwproxy.command(
     `/element/${element}/click`,
     'POST',
@@ -199,6 +253,9 @@ export async function clear(elementId) {
  * @returns {Promise<import('@appium/types').Rect>}
  */
 export async function getElementRect(elementId) {
+  if (isSnapshotElementId(elementId)) {
+    return {...requireSnapshotElement.bind(this)(elementId).rect};
+  }
   const chromedriver = /** @type {import('appium-chromedriver').default} */ (this.chromedriver);
   if (this.isWebContext()) {
     this.log.debug(
@@ -245,6 +302,60 @@ export async function mobileReplaceElementValue(opts) {
   );
 }
 
+/**
+ * Retrieves properties of multiple elements at once. Properties are fetched concurrently
+ * and failures are reported per element, so a single stale element does not fail the whole batch.
+ * `text`, `rect`, `location`, `size`, `name`, `displayed`, `enabled` and `selected` properties
+ * are retrieved by corresponding element commands. Other property names are treated as attribute names.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').GetElementsPropertiesOpts} opts
+ * @returns {Promise<import('@appium/types').StringRecord<import('./types').ElementPropertiesResult>>}
+ */
+export async function mobileGetElementsProperties(opts) {
+  const {elements, properties} = opts;
+  if (!_.isArray(elements) || _.isEmpty(elements)) {
+    throw new errors.InvalidArgumentError(`'elements' must be a non-empty array of element identifiers`);
+  }
+  if (!_.isArray(properties) || _.isEmpty(properties) || !properties.every((p) => _.isString(p) && !_.isEmpty(p))) {
+    throw new errors.InvalidArgumentError(`'properties' must be a non-empty array of property names`);
+  }
+  const elementIds = _.uniq(elements.map((el) => util.unwrapElement(el)));
+  if (!elementIds.every((id) => _.isString(id) && !_.isEmpty(id))) {
+    throw new errors.InvalidArgumentError(
+      `'elements' must only contain element identifiers. Got ${JSON.stringify(elements)}`
+    );
+  }
+  const propertyNames = _.uniq(properties);
+
+  /** @type {import('@appium/types').StringRecord<import('./types').ElementPropertiesResult>} */
+  const result = _.fromPairs(elementIds.map((id) => [id, {properties: {}}]));
+  const requests = elementIds.flatMap((elementId) => propertyNames.map((name) => ({elementId, name})));
+  await B.map(requests, async ({elementId, name}) => {
+    const entry = result[elementId];
+    // there is no need to query properties of elements, which are known to be failed
+    if (entry.error) {
+      return;
+    }
+    try {
+      // inherited keys, like 'constructor', must not be mistaken for property getters
+      entry.properties[name] = _.has(ELEMENT_PROPERTY_GETTERS, name)
+        ? await this[ELEMENT_PROPERTY_GETTERS[name]](elementId)
+        : await this.getAttribute(name, elementId);
+    } catch (e) {
+      if (!entry.error) {
+        const err = toActualError(e);
+        entry.error = {
+          error: err.error ?? 'unknown error',
+          message: err.message,
+        };
+        entry.properties = {};
+      }
+    }
+  }, {concurrency: MAX_CONCURRENT_PROPERTY_REQUESTS});
+  return result;
+}
+
 // #region Internal Helpers
 
 /**
@@ -255,6 +366,22 @@ function toBool(s) {
   return _.isString(s) ? s.toLowerCase() === 'true' : !!s;
 }
 
+/**
+ * @this {AndroidUiautomator2Driver}
+ * @param {string} elementId
+ * @returns {import('../lookup-snapshot').SnapshotElement}
+ */
+function requireSnapshotElement(elementId) {
+  const element = this._snapshotElements.get(elementId);
+  if (!element) {
+    // handles are forgotten as soon as the snapshot they have been found in is dropped
+    throw new errors.StaleElementReferenceError(
+      `The element '${elementId}' belongs to a lookup snapshot, which is not actual anymore`
+    );
+  }
+  return element;
+}
+
 // #endregion
 
 /**
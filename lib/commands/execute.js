@@ -20,6 +20,7 @@ export function mobileCommandsMapping() {
     scrollGesture: 'mobileScrollGesture',
     scrollBackTo: 'mobileScrollBackTo',
     scroll: 'mobileScroll',
+    scrollToElement: 'mobileScrollToElement',
     viewportScreenshot: 'mobileViewportScreenshot',
     viewportRect: 'mobileViewPortRect',
 
@@ -31,11 +32,28 @@ export function mobileCommandsMapping() {
     batteryInfo: 'mobileGetBatteryInfo',
 
     deviceInfo: 'mobileGetDeviceInfo',
+    getSessionStartupMetrics: 'mobileGetSessionStartupMetrics',
+    getProxyStats: 'mobileGetProxyStats',
+    getSessionSetupPlan: 'mobileGetSessionSetupPlan',
+    getUiautomator2ServerLogs: 'mobileGetUiautomator2ServerLogs',
+    getUiautomator2ServerHealth: 'mobileGetUiautomator2ServerHealth',
+
+    pushSettings: 'mobilePushSettings',
+    popSettings: 'mobilePopSettings',
+
+    translateSelector: 'mobileTranslateSelector',
+    waitFor: 'mobileWaitFor',
 
     openNotifications: 'openNotifications',
+    waitForStableUi: 'mobileWaitForStableUi',
+    getSource: 'mobileGetSource',
+    captureSourceSnapshot: 'mobileCaptureSourceSnapshot',
+    diffSourceSnapshots: 'mobileDiffSourceSnapshots',
+    accessibilityAudit: 'mobileAccessibilityAudit',
 
     type: 'mobileType',
     replaceElementValue: 'mobileReplaceElementValue',
+    getElementsProperties: 'mobileGetElementsProperties',
 
     getAppStrings: 'mobileGetAppStrings',
 
@@ -1,4 +1,14 @@
+import _ from 'lodash';
+import { errors, isErrorType } from 'appium/driver';
+import { util } from 'appium/support';
 import CssConverter from '../css-converter';
+import {
+  toActualError,
+  toXPathLiteral,
+  validateUiSelectorSyntax,
+  validateXPathSyntax,
+} from '../helpers';
+import { LookupSnapshot, dropLookupSnapshot, isSnapshotElementId } from '../lookup-snapshot';
 
 // we override the xpath search for this first-visible-child selector, which
 // looks like /*[@firstVisible="true"]
@@ -7,6 +17,11 @@ const MAGIC_FIRST_VIS_CHILD_SEL = /\/\*\[@firstVisible ?= ?('|")true\1\]/;
 const MAGIC_SCROLLABLE_SEL = /\/\/\*\[@scrollable ?= ?('|")true\1\]/;
 const MAGIC_SCROLLABLE_BY = 'new UiSelector().scrollable(true)';
 
+export const STRING_RESOURCE_STRATEGY = '-android string resource';
+
+// Locators of older elements are forgotten if the limit is exceeded
+const MAX_RECORDED_ELEMENT_LOCATORS = 5000;
+
 /**
  * @privateRemarks Overriding helpers.doFindElementOrEls functionality of appium-android-driver,
  * this.element initialized in find.js of appium-android-drive.
@@ -19,29 +34,337 @@ export async function doFindElementOrEls(params) {
   const uiautomator2 = /** @type {import('../uiautomator2').UiAutomator2Server} */ (
     this.uiautomator2
   );
-  if (params.strategy === 'xpath' && MAGIC_FIRST_VIS_CHILD_SEL.test(params.selector)) {
-    let elementId = params.context;
-    return /** @type {Element} */ (
-      await uiautomator2.jwproxy.command(`/appium/element/${elementId}/first_visible`, 'GET', {})
+  if (params.strategy === STRING_RESOURCE_STRATEGY) {
+    // the same params are reused by subsequent lookup attempts, so they must stay untouched
+    params = {
+      ...params,
+      strategy: 'xpath',
+      selector: await toStringResourceXPath.bind(this)(params.selector),
+    };
+  }
+  // lookups inside of elements found by the server are always performed by the server
+  if (isSnapshotElementId(params.context)
+      || (!params.context && this.settings.getSettings().enableSnapshotLookup)) {
+    const snapshotSelector = toSnapshotSelector(params, this.opts.appPackage);
+    if (snapshotSelector) {
+      return await findInSnapshot.bind(this)(snapshotSelector, params);
+    }
+    if (isSnapshotElementId(params.context)) {
+      throw new errors.InvalidArgumentError(
+        `Only 'xpath' and 'css selector' strategies are supported for lookups ` +
+        `inside of elements found in a lookup snapshot. '${params.strategy}' is given instead`
+      );
+    }
+  }
+  /** @type {Omit<ElementLocator, 'index'>} */
+  const locator = {
+    strategy: params.strategy,
+    selector: params.selector,
+    context: params.context,
+  };
+  const {strategy, selector, url, method} = toServerLookup(params, this.opts.appPackage);
+  /** @type {Element|Element[]} */
+  let result;
+  if (method === 'GET') {
+    result = /** @type {Element} */ (await uiautomator2.jwproxy.command(url, method, {}));
+  } else {
+    result = /** @type {Element|Element[]} */ (
+      await uiautomator2.jwproxy.command(url, method, {...params, strategy, selector})
     );
   }
-  if (params.strategy === 'xpath' && MAGIC_SCROLLABLE_SEL.test(params.selector)) {
-    params.strategy = '-android uiautomator';
-    params.selector = MAGIC_SCROLLABLE_BY;
+  if (this.settings.getSettings().enableStaleElementRecovery) {
+    recordElementLocators.bind(this)(result, locator);
   }
-  if (params.strategy === 'css selector') {
-    params.strategy = '-android uiautomator';
-    params.selector = new CssConverter(
-      params.selector,
-      this.opts.appPackage
-    ).toUiAutomatorSelector();
+  return result;
+}
+
+/**
+ * Locates the element again using the locator it has been originally found with.
+ * This only works if the `enableStaleElementRecovery` setting has been enabled
+ * while the element was being located.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {string} elementId The identifier of the stale element
+ * @returns {Promise<string|null>} The identifier of the found element or null
+ * if the element cannot be located again
+ */
+export async function relocateStaleElement(elementId) {
+  const locator = this._elementLocators.get(elementId);
+  if (!locator || !this.settings.getSettings().enableStaleElementRecovery) {
+    return null;
   }
-  return /** @type {Element|Element[]} */ (
-    await uiautomator2.jwproxy.command(`/element${params.multiple ? 's' : ''}`, 'POST', params)
-  );
+  const {strategy, selector, index} = locator;
+  let {context} = locator;
+  const findAll = async () => _.castArray(await this.doFindElementOrEls({
+    strategy,
+    selector,
+    context,
+    multiple: true,
+  }));
+  /** @type {Element[]} */
+  let elements;
+  try {
+    try {
+      elements = await findAll();
+    } catch (e) {
+      // the parent element might have become stale as well
+      const err = toActualError(e);
+      const newContext = context && isErrorType(err, errors.StaleElementReferenceError)
+        ? await relocateStaleElement.bind(this)(context)
+        : null;
+      if (!newContext) {
+        throw err;
+      }
+      context = newContext;
+      elements = await findAll();
+    }
+  } catch (e) {
+    this.log.warn(`Cannot locate the stale element '${elementId}' again using ${strategy} '${selector}': ${e.message}`);
+    return null;
+  }
+  if (elements.length <= index) {
+    this.log.info(
+      `Cannot locate the stale element '${elementId}' again, because ${strategy} '${selector}' ` +
+      `has only matched ${elements.length} element(s) while the element had index ${index}`
+    );
+    return null;
+  }
+  const newElementId = util.unwrapElement(elements[index]);
+  this.log.info(`Located the stale element '${elementId}' again as '${newElementId}' using ${strategy} '${selector}'`);
+  return newElementId;
+}
+
+/**
+ * Translates the given locator the same way it is done while looking for elements,
+ * but without sending anything to the server. This might be useful to validate
+ * locators and to check which selectors are actually sent to the server.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').TranslateSelectorOpts} opts
+ * @returns {Promise<import('./types').TranslatedSelector>}
+ */
+export async function mobileTranslateSelector(opts) {
+  const {strategy, selector, multiple = false} = opts;
+  if (!_.isString(strategy) || !_.isString(selector)) {
+    throw new errors.InvalidArgumentError(`Both 'strategy' and 'selector' arguments must be strings`);
+  }
+  if (!this.locatorStrategies.includes(strategy)) {
+    return {
+      valid: false,
+      error: `Locator strategy '${strategy}' is not supported. ` +
+        `Supported strategies are: ${this.locatorStrategies.join(', ')}`,
+      position: null,
+    };
+  }
+  if (_.isEmpty(selector)) {
+    return {
+      valid: false,
+      error: 'The selector must not be empty',
+      position: 0,
+    };
+  }
+  try {
+    if (strategy === 'xpath') {
+      validateXPathSyntax(selector);
+    } else if (strategy === '-android uiautomator') {
+      validateUiSelectorSyntax(selector);
+    }
+    const lookup = toServerLookup({
+      strategy: strategy === STRING_RESOURCE_STRATEGY ? 'xpath' : strategy,
+      // string resource values depend on the device language, so they are only resolved while looking up elements
+      selector: strategy === STRING_RESOURCE_STRATEGY
+        ? toTextOrDescriptionXPath(`<resolved at runtime from the '${selector}' string resource>`)
+        : selector,
+      multiple,
+      context: ':elementId',
+    }, this.opts.appPackage);
+    return {
+      valid: true,
+      strategy: lookup.strategy,
+      selector: lookup.selector,
+      endpoint: `${lookup.method} ${lookup.url}`,
+      rewritten: lookup.strategy !== strategy || lookup.selector !== selector || lookup.method === 'GET',
+    };
+  } catch (e) {
+    return {
+      valid: false,
+      error: e.message,
+      position: _.isInteger(e.position) ? e.position : null,
+    };
+  }
+}
+
+// #region Internal Helpers
+
+/**
+ * Remembers how the given elements have been found,
+ * so they could be located again if their references become stale
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {Element|Element[]} result The result of the lookup
+ * @param {Omit<ElementLocator, 'index'>} locator
+ */
+function recordElementLocators(result, locator) {
+  _.castArray(result).forEach((element, index) => {
+    const elementId = util.unwrapElement(element);
+    if (!_.isString(elementId)) {
+      return;
+    }
+    // the most recent lookup always wins
+    this._elementLocators.delete(elementId);
+    this._elementLocators.set(elementId, {...locator, index});
+  });
+  while (this._elementLocators.size > MAX_RECORDED_ELEMENT_LOCATORS) {
+    const [oldestElementId] = this._elementLocators.keys();
+    this._elementLocators.delete(oldestElementId);
+  }
+}
+
+/**
+ * Rewrites locators, which are not natively supported by the server
+ * or which could be looked up more efficiently in a different way
+ *
+ * @param {Pick<import('appium-android-driver').FindElementOpts, 'strategy'|'selector'|'multiple'|'context'>} params
+ * @param {string} [appPackage] The package name used to complete resource identifiers
+ * @returns {ServerLookup}
+ */
+function toServerLookup({strategy, selector, multiple, context}, appPackage) {
+  const url = `/element${multiple ? 's' : ''}`;
+  if (strategy === 'xpath' && MAGIC_FIRST_VIS_CHILD_SEL.test(selector)) {
+    return {
+      strategy,
+      selector,
+      url: `/appium/element/${context}/first_visible`,
+      method: 'GET',
+    };
+  }
+  if (strategy === 'xpath' && MAGIC_SCROLLABLE_SEL.test(selector)) {
+    return {
+      strategy: '-android uiautomator',
+      selector: MAGIC_SCROLLABLE_BY,
+      url,
+      method: 'POST',
+    };
+  }
+  if (strategy === 'css selector') {
+    return {
+      ...new CssConverter(selector, appPackage).toLocator(),
+      url,
+      method: 'POST',
+    };
+  }
+  return {strategy, selector, url, method: 'POST'};
+}
+
+/**
+ * Converts the given locator to an XPath expression, which could be evaluated
+ * against a lookup snapshot
+ *
+ * @param {Pick<import('appium-android-driver').FindElementOpts, 'strategy'|'selector'>} params
+ * @param {string} [appPackage] The package name used to complete resource identifiers
+ * @returns {string|null} The XPath expression or null if the locator must be looked up by the server
+ */
+function toSnapshotSelector({strategy, selector}, appPackage) {
+  if (strategy === 'xpath') {
+    // magic selectors are handled by the server
+    return MAGIC_FIRST_VIS_CHILD_SEL.test(selector) || MAGIC_SCROLLABLE_SEL.test(selector)
+      ? null
+      : selector;
+  }
+  if (strategy === 'css selector') {
+    return new CssConverter(selector, appPackage).toXPathSelector();
+  }
+  return null;
 }
 
+/**
+ * Looks up elements in the current lookup snapshot. The snapshot is fetched from
+ * the server if it does not exist yet.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {string} selector The XPath expression
+ * @param {Pick<import('appium-android-driver').FindElementOpts, 'context'|'multiple'>} params
+ * @returns {Promise<Element | Element[]>}
+ */
+async function findInSnapshot(selector, {context, multiple}) {
+  if (!this._lookupSnapshot) {
+    this.log.debug('Fetching the page source to create a new lookup snapshot');
+    const source = /** @type {string} */ (await this.uiautomator2.jwproxy.command('/source', 'GET', {}));
+    this._lookupSnapshot = new LookupSnapshot(source);
+  }
+  const found = this._lookupSnapshot.find(selector, context || undefined);
+  if (_.isEmpty(found)) {
+    // the hierarchy might be still changing, so retries must not look at the same snapshot
+    dropLookupSnapshot.bind(this)();
+    if (multiple) {
+      return [];
+    }
+    throw new errors.NoSuchElementError(
+      `An element could not be located in the lookup snapshot using the '${selector}' selector`
+    );
+  }
+  const elements = multiple ? found : [found[0]];
+  for (const element of elements) {
+    this._snapshotElements.set(element.elementId, element);
+  }
+  const wrapped = elements.map(({elementId}) => util.wrapElement(elementId));
+  return multiple ? wrapped : wrapped[0];
+}
+
+/**
+ * Builds an XPath expression matching elements, whose text or content description
+ * is equal to the value of the given string resource of the application under test.
+ * The value is resolved for the current device language.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {string} resourceName The name of the string resource, for example `login_button_title`
+ * @returns {Promise<string>}
+ * @throws {errors.InvalidSelectorError} If the application has no such string resource
+ */
+async function toStringResourceXPath(resourceName) {
+  // the device locale might be changed in scope of the same session
+  const language = await this.adb.getDeviceLanguage();
+  // the application under test might be changed in scope of the same session
+  const cacheKey = `${this.opts.appPackage}:${language}`;
+  let appStrings = this._appStringsCache.get(cacheKey);
+  if (!appStrings) {
+    appStrings = await this.getStrings(language);
+    this._appStringsCache.set(cacheKey, appStrings);
+  }
+  const value = appStrings[resourceName];
+  if (!_.isString(value)) {
+    throw new errors.InvalidSelectorError(
+      `The application under test has no string resource named '${resourceName}' for the '${language}' language`
+    );
+  }
+  const literal = toXPathLiteral(value);
+  this.log.debug(`Resolved the '${resourceName}' string resource to ${literal}`);
+  return toTextOrDescriptionXPath(literal);
+}
+
+/**
+ * @param {string} literal The XPath literal to compare element texts and content descriptions with
+ * @returns {string}
+ */
+function toTextOrDescriptionXPath(literal) {
+  return `//*[@text=${literal} or @content-desc=${literal}]`;
+}
+
+// #endregion
+
 /**
  * @typedef {import('@appium/types').Element} Element
  * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ *
+ * @typedef {Object} ServerLookup
+ * @property {string} strategy
+ * @property {string} selector
+ * @property {string} url The server endpoint to send the lookup request to
+ * @property {'GET'|'POST'} method
+ *
+ * @typedef {Object} ElementLocator
+ * @property {string} strategy
+ * @property {string} selector
+ * @property {string} context The identifier of the parent element or an empty string
+ * @property {number} index The index of the element among all elements matched by the locator
  */
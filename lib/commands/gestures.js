@@ -1,6 +1,12 @@
 import {util} from 'appium/support';
 import _ from 'lodash';
-import {errors} from 'appium/driver';
+import {errors, isErrorType} from 'appium/driver';
+import {toActualError} from '../helpers';
+import {dropLookupSnapshot} from '../lookup-snapshot';
+
+const SCROLL_DIRECTIONS = ['up', 'down', 'left', 'right'];
+const DEFAULT_SCROLL_TO_ELEMENT_MAX_SWIPES = 10;
+const DEFAULT_SCROLL_TO_ELEMENT_PERCENT = 0.7;
 
 /**
  * Performs a simple click/tap gesture
@@ -258,8 +264,119 @@ export async function mobileScroll(opts) {
   );
 }
 
+/**
+ * Scrolls the given container or area until the element located by any supported
+ * locator becomes visible. Unlike `mobile: scroll` this does not rely on UiScrollable,
+ * so it also works for containers, which are not recognized by UiAutomator as scrollable,
+ * for example lazy lists in Jetpack Compose. Scroll gestures are alternated with lookups
+ * until the element is displayed, the maximum number of swipes is reached
+ * or the scroll gesture reports that the end of the content has been reached.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').ScrollToElementOpts} opts
+ * @returns {Promise<import('@appium/types').Element>} The found element
+ * @throws {errors.NoSuchElementError} If the element has not become visible
+ */
+export async function mobileScrollToElement(opts) {
+  const {
+    strategy,
+    selector,
+    elementId,
+    left,
+    top,
+    width,
+    height,
+    direction = 'down',
+    maxSwipes = DEFAULT_SCROLL_TO_ELEMENT_MAX_SWIPES,
+    percent = DEFAULT_SCROLL_TO_ELEMENT_PERCENT,
+    speed,
+  } = opts;
+  if (!_.isString(strategy) || !_.isString(selector) || _.isEmpty(selector)) {
+    throw new errors.InvalidArgumentError(`Both 'strategy' and 'selector' arguments must be non-empty strings`);
+  }
+  this.validateLocatorStrategy(strategy);
+  if (!elementId && ![left, top, width, height].every(_.isFinite)) {
+    throw new errors.InvalidArgumentError(
+      `Either 'elementId' of the scrollable container or 'left', 'top', 'width' and 'height' ` +
+      `of the scrollable area must be provided`
+    );
+  }
+  if (!_.includes(SCROLL_DIRECTIONS, _.toLower(direction))) {
+    throw new errors.InvalidArgumentError(
+      `'direction' must be one of ${JSON.stringify(SCROLL_DIRECTIONS)}. Got '${direction}'`
+    );
+  }
+  if (!_.isInteger(maxSwipes) || maxSwipes < 0) {
+    throw new errors.InvalidArgumentError(`'maxSwipes' must be a non-negative integer. Got ${maxSwipes}`);
+  }
+
+  let swipes = 0;
+  let canScrollMore = true;
+  while (true) {
+    const element = await findDisplayedElement.bind(this)(strategy, selector);
+    if (element) {
+      this.log.debug(`The element located by ${strategy} '${selector}' has become visible after ${swipes} swipe(s)`);
+      return element;
+    }
+    if (swipes >= maxSwipes) {
+      throw new errors.NoSuchElementError(
+        `The element located by ${strategy} '${selector}' has not become visible after ${swipes} swipe(s)`
+      );
+    }
+    if (!canScrollMore) {
+      throw new errors.NoSuchElementError(
+        `The element located by ${strategy} '${selector}' has not become visible, because the end ` +
+        `of the content has been reached after ${swipes} swipe(s) in the '${direction}' direction`
+      );
+    }
+    canScrollMore = await this.mobileScrollGesture({
+      elementId,
+      left,
+      top,
+      width,
+      height,
+      direction,
+      percent,
+      speed,
+    });
+    swipes++;
+  }
+}
+
 // #region Internal Helpers
 
+/**
+ * @this {AndroidUiautomator2Driver}
+ * @param {string} strategy
+ * @param {string} selector
+ * @returns {Promise<import('@appium/types').Element|null>} The first displayed element
+ * matching the locator or null if there is none
+ */
+async function findDisplayedElement(strategy, selector) {
+  // the hierarchy has been changed by the previous swipe
+  dropLookupSnapshot.bind(this)();
+  try {
+    const elements = /** @type {import('@appium/types').Element[]} */ (await this.doFindElementOrEls({
+      strategy,
+      selector,
+      multiple: true,
+      context: '',
+    }));
+    for (const element of elements) {
+      if (await this.elementDisplayed(util.unwrapElement(element))) {
+        return element;
+      }
+    }
+  } catch (e) {
+    const err = toActualError(e);
+    // the list might still be settling after the swipe
+    if (!isErrorType(err, errors.NoSuchElementError) && !isErrorType(err, errors.StaleElementReferenceError)) {
+      throw err;
+    }
+  }
+  return null;
+}
+
 /**
  *
  * @param {import('@appium/types').Element|string} [element]
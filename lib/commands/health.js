@@ -0,0 +1,39 @@
+import _ from 'lodash';
+
+const BIDI_EVENT_NAME = 'bidiEvent';
+const SERVER_HEALTH_CHANGED_EVENT = 'appium:uiautomator2.serverHealthChanged';
+
+/**
+ * Retrieves the health history of the UiAutomator2 server collected by the health watchdog.
+ * The watchdog is only running if the `uiautomator2ServerHealthCheckInterval` capability is set.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @returns {Promise<import('./types').ServerHealthInfo>}
+ */
+export async function mobileGetUiautomator2ServerHealth() {
+  const history = this.uiautomator2?.healthHistory ?? [];
+  return {
+    watchdogEnabled: !!this.uiautomator2?.healthCheckInterval,
+    healthy: _.isEmpty(history) ? null : /** @type {ServerHealthCheck} */ (_.last(history)).healthy,
+    history: [...history],
+  };
+}
+
+/**
+ * Emits a BiDi event whenever the UiAutomator2 server becomes unhealthy or healthy again
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {ServerHealthCheck} check The health check, which has changed the server health state
+ * @returns {void}
+ */
+export function notifyBiDiServerHealthChange(check) {
+  this.eventEmitter.emit(BIDI_EVENT_NAME, {
+    method: SERVER_HEALTH_CHANGED_EVENT,
+    params: check,
+  });
+}
+
+/**
+ * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ * @typedef {import('./types').ServerHealthCheck} ServerHealthCheck
+ */
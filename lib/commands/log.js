@@ -0,0 +1,26 @@
+export const supportedLogTypes = {
+  uiautomator2Server: {
+    description: 'Recent stdout and stderr lines of the UiAutomator2 server instrumentation process',
+    /**
+     * @param {AndroidUiautomator2Driver} self
+     * @returns {import('appium-adb').LogEntry[]}
+     */
+    getter: (self) => self.uiautomator2?.getInstrumentationLogs() ?? [],
+  },
+};
+
+/**
+ * Retrieves recent stdout and stderr lines of the UiAutomator2 server instrumentation process.
+ * The lines are kept even if the process has already exited, so they could be used
+ * to investigate unexpected server crashes.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @returns {Promise<import('appium-adb').LogEntry[]>} The list of log entries sorted by their timestamps
+ */
+export async function mobileGetUiautomator2ServerLogs() {
+  return this.uiautomator2?.getInstrumentationLogs() ?? [];
+}
+
+/**
+ * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ */
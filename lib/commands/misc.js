@@ -1,3 +1,15 @@
+import _ from 'lodash';
+import B from 'bluebird';
+import { createHash } from 'node:crypto';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { select as selectXPath } from 'xpath';
+import { errors } from 'appium/driver';
+import { timing } from 'appium/support';
+
+const DEFAULT_STABLE_UI_QUIET_PERIOD_MS = 1000;
+const DEFAULT_STABLE_UI_TIMEOUT_MS = 10000;
+const DEFAULT_STABLE_UI_INTERVAL_MS = 250;
+
 /**
  * @this {AndroidUiautomator2Driver}
  * @returns {Promise<string>}
@@ -87,6 +99,122 @@ export async function mobileGetDeviceInfo() {
   );
 }
 
+/**
+ * Retrieves durations of the current session startup phases.
+ * Nested steps are named using dot-separated paths.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @returns {Promise<import('../types').Uiautomator2StartupMetrics>}
+ */
+export async function mobileGetSessionStartupMetrics() {
+  return this.startupMetrics.toJSON();
+}
+
+/**
+ * Retrieves latency and error statistics of requests proxied to UiAutomator2 server
+ * within the current session. Routes are normalized, so requests to different elements
+ * are counted as the same route.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @returns {Promise<StringRecord<import('./types').RouteStats>>} Statistics of each requested route
+ */
+export async function mobileGetProxyStats() {
+  return this.uiautomator2?.jwproxy.stats.toJSON() ?? {};
+}
+
+/**
+ * Waits until the page source stays the same for the given quiet period.
+ * This helps to avoid flakiness caused by running animations or lazily loaded content.
+ * Volatile parts of the page source, like clock text, could be excluded from the comparison.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').WaitForStableUiOpts} [opts={}]
+ * @returns {Promise<import('./types').StableUiResult>}
+ */
+export async function mobileWaitForStableUi(opts = {}) {
+  const {
+    quietPeriod = DEFAULT_STABLE_UI_QUIET_PERIOD_MS,
+    timeout = DEFAULT_STABLE_UI_TIMEOUT_MS,
+    interval = DEFAULT_STABLE_UI_INTERVAL_MS,
+    ignoredAttributes = [],
+    ignoredElements,
+  } = opts;
+  for (const [name, value] of /** @type {[string, number][]} */ ([
+    ['quietPeriod', quietPeriod], ['timeout', timeout], ['interval', interval],
+  ])) {
+    if (!_.isFinite(value) || value < 0) {
+      throw new errors.InvalidArgumentError(`'${name}' must be a non-negative number of milliseconds. Got ${value}`);
+    }
+  }
+  if (!_.isArray(ignoredAttributes) || !ignoredAttributes.every(_.isString)) {
+    throw new errors.InvalidArgumentError(`'ignoredAttributes' must be an array of attribute names`);
+  }
+  if (!_.isNil(ignoredElements) && (!_.isString(ignoredElements) || _.isEmpty(ignoredElements))) {
+    throw new errors.InvalidArgumentError(`'ignoredElements' must be a non-empty XPath expression`);
+  }
+
+  const timer = new timing.Timer().start();
+  let samples = 0;
+  let lastHash = null;
+  let lastChangeMs = 0;
+  while (true) {
+    const hash = toPageSourceHash(await this.getPageSource(), ignoredAttributes, ignoredElements);
+    samples++;
+    const elapsedMs = Math.round(timer.getDuration().asMilliSeconds);
+    if (hash !== lastHash) {
+      lastHash = hash;
+      lastChangeMs = elapsedMs;
+    } else if (elapsedMs - lastChangeMs >= quietPeriod) {
+      this.log.debug(`The UI has been stable for ${elapsedMs - lastChangeMs}ms after ${samples} samples`);
+      return {stable: true, samples, elapsedMs, stableForMs: elapsedMs - lastChangeMs};
+    }
+    if (elapsedMs >= timeout) {
+      this.log.info(`The UI has not become stable within ${timeout}ms after ${samples} samples`);
+      return {stable: false, samples, elapsedMs, stableForMs: elapsedMs - lastChangeMs};
+    }
+    await B.delay(Math.min(interval, timeout - elapsedMs));
+  }
+}
+
+// #region Internal Helpers
+
+/**
+ * Calculates the hash of the page source, so it is not necessary to keep
+ * the whole previous sample in memory
+ *
+ * @param {string} source The XML page source
+ * @param {string[]} ignoredAttributes Names of attributes to exclude from all elements
+ * @param {string} [ignoredElements] XPath expression matching elements to exclude
+ * @returns {string}
+ */
+function toPageSourceHash(source, ignoredAttributes, ignoredElements) {
+  if (_.isEmpty(ignoredAttributes) && !ignoredElements) {
+    return createHash('sha1').update(source).digest('hex');
+  }
+  const document = new DOMParser().parseFromString(source, 'text/xml');
+  if (ignoredElements) {
+    let matched;
+    try {
+      matched = selectXPath(ignoredElements, /** @type {Node} */ (/** @type {unknown} */ (document)));
+    } catch (e) {
+      throw new errors.InvalidArgumentError(`'ignoredElements' is not a valid XPath expression: ${e.message}`);
+    }
+    for (const node of _.isArray(matched) ? matched : []) {
+      node.parentNode?.removeChild(node);
+    }
+  }
+  if (!_.isEmpty(ignoredAttributes)) {
+    for (const element of Array.from(document.getElementsByTagName('*'))) {
+      for (const name of ignoredAttributes) {
+        element.removeAttribute(name);
+      }
+    }
+  }
+  return createHash('sha1').update(new XMLSerializer().serializeToString(document)).digest('hex');
+}
+
+// #endregion
+
 /**
  * @template [T=any]
  * @typedef {import('@appium/types').StringRecord<T>} StringRecord
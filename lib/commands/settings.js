@@ -0,0 +1,66 @@
+import _ from 'lodash';
+import { errors } from 'appium/driver';
+import { validateSettings } from '../helpers';
+
+/**
+ * Applies the given settings and remembers the previous values of them,
+ * so they could be restored later using `mobile: popSettings`.
+ * Pushed settings snapshots are kept in a stack, so pushes could be nested.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').PushSettingsOpts} opts
+ * @returns {Promise<Partial<Uiautomator2Settings>>} The previous values of the changed settings
+ */
+export async function mobilePushSettings(opts) {
+  const {settings} = opts;
+  validateSettings(settings);
+  const currentSettings = await this.getSettings();
+  const unknownNames = _.keys(settings).filter((name) => _.isUndefined(currentSettings[name]));
+  if (!_.isEmpty(unknownNames)) {
+    this.log.warn(
+      `The current values of ${unknownNames.join(', ')} settings are unknown, ` +
+      `so they are not going to be restored by 'popSettings'`
+    );
+  }
+  /** @type {Partial<Uiautomator2Settings>} */
+  const snapshot = _.pick(currentSettings, _.difference(_.keys(settings), unknownNames));
+  this._settingsSnapshots.push(snapshot);
+  try {
+    await this.updateSettings(settings);
+  } catch (err) {
+    // some of the settings might have already been applied
+    this._settingsSnapshots.pop();
+    try {
+      await this.updateSettings(snapshot);
+    } catch (e) {
+      this.log.warn(`Cannot restore the previous settings values: ${e.message}`);
+    }
+    throw err;
+  }
+  this.log.debug(`Pushed settings snapshot #${this._settingsSnapshots.length}: ${JSON.stringify(snapshot)}`);
+  return snapshot;
+}
+
+/**
+ * Restores settings values saved by the most recent `mobile: pushSettings` call
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @returns {Promise<Partial<Uiautomator2Settings>>} The restored settings
+ * @throws {errors.InvalidArgumentError} If there are no pushed settings snapshots
+ */
+export async function mobilePopSettings() {
+  const snapshot = this._settingsSnapshots.pop();
+  if (!snapshot) {
+    throw new errors.InvalidArgumentError(
+      `There are no settings to restore. Make sure 'mobile: pushSettings' has been called before`
+    );
+  }
+  await this.updateSettings(snapshot);
+  this.log.debug(`Restored settings snapshot #${this._settingsSnapshots.length + 1}: ${JSON.stringify(snapshot)}`);
+  return snapshot;
+}
+
+/**
+ * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ * @typedef {import('../types').Uiautomator2Settings} Uiautomator2Settings
+ */
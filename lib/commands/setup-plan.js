@@ -0,0 +1,289 @@
+import _ from 'lodash';
+import B from 'bluebird';
+import { utils } from 'appium-android-driver';
+import { APKS_EXTENSION, APK_EXTENSION } from '../extensions';
+
+const APPIUM_VENDOR_PREFIX = 'appium:';
+
+/**
+ * Works out which steps the session setup would perform with the application under test
+ * and UiAutomator2 server packages, without changing anything on the device under test.
+ * The plan is calculated for the current session capabilities, optionally overridden by the
+ * given ones, and the actual state of the device under test.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').SessionSetupPlanOpts} [opts={}]
+ * @returns {Promise<import('./types').SessionSetupPlan>}
+ */
+export async function mobileGetSessionSetupPlan(opts = {}) {
+  const capabilities = stripAppiumPrefixes(opts.capabilities ?? {});
+  const planOpts = {...this.opts, ...capabilities};
+  if (capabilities.app) {
+    // remote apps must be downloaded in order to check their signatures and versions
+    const app = await this.helpers.configureApp(capabilities.app, [APK_EXTENSION, APKS_EXTENSION]);
+    planOpts.app = app;
+    // the package of the session app has nothing to do with the overridden one
+    if (!capabilities.appPackage) {
+      const {apkPackage, apkActivity} = await this.adb.packageAndLaunchActivityFromManifest(app);
+      planOpts.appPackage = apkPackage;
+      planOpts.appActivity = capabilities.appActivity ?? apkActivity;
+    }
+  }
+  const [app, server] = await B.all([
+    planAppSetup.bind(this)(planOpts),
+    planServerSetup.bind(this)(planOpts),
+  ]);
+  return {app, server};
+}
+
+// #region Internal Helpers
+
+/**
+ * @param {Record<string, any>} capabilities
+ * @returns {Record<string, any>} The same capabilities without vendor prefixes in their names
+ */
+function stripAppiumPrefixes(capabilities) {
+  return _.mapKeys(capabilities, (value, name) => _.startsWith(name, APPIUM_VENDOR_PREFIX)
+    ? name.substring(APPIUM_VENDOR_PREFIX.length)
+    : name);
+}
+
+/**
+ * Mirrors the decisions made by `initAUT` and `installAUT`
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('../types').Uiautomator2DriverOpts} opts
+ * @returns {Promise<SetupStep[]>}
+ */
+async function planAppSetup(opts) {
+  /** @type {SetupStep[]} */
+  const steps = [];
+  const {
+    app, appPackage, noReset, fullReset, fastReset, skipUninstall, noSign, enforceAppInstall,
+  } = opts;
+
+  if (opts.uninstallOtherPackages) {
+    for (const pkg of utils.parseArray(opts.uninstallOtherPackages)) {
+      steps.push({
+        action: 'uninstall',
+        target: pkg === '*' ? 'all third-party packages' : pkg,
+        reason: `'uninstallOtherPackages' capability is set`,
+      });
+    }
+  }
+  if (opts.otherApps) {
+    for (const otherApp of utils.parseArray(opts.otherApps)) {
+      steps.push({
+        action: 'installOrUpgrade',
+        target: otherApp,
+        reason: `'otherApps' capability is set`,
+      });
+    }
+  }
+
+  if (!app) {
+    if (fullReset) {
+      steps.push({
+        action: 'fail',
+        target: appPackage ?? null,
+        reason: 'Full reset requires an app capability, use fastReset if app is not provided',
+      });
+    } else if (fastReset && appPackage) {
+      steps.push(await this.adb.isAppInstalled(appPackage)
+        ? {
+          action: 'clearData',
+          target: appPackage,
+          reason: `'fastReset' capability is enabled`,
+        }
+        : {
+          action: 'fail',
+          target: appPackage,
+          reason: `The app is not installed and 'app' capability is not set`,
+        });
+    } else {
+      steps.push({
+        action: 'none',
+        target: appPackage ?? null,
+        reason: `'app' capability is not set, so the app is assumed to be already on the device`,
+      });
+    }
+    return steps;
+  }
+
+  if (!appPackage) {
+    steps.push({
+      action: 'fail',
+      target: app,
+      reason: `The package name of the app is unknown. Consider setting 'appPackage' capability`,
+    });
+    return steps;
+  }
+
+  const isInstalled = await this.adb.isAppInstalled(appPackage);
+  if (noReset && isInstalled) {
+    steps.push({
+      action: 'none',
+      target: appPackage,
+      reason: `'noReset' capability is enabled and the app is already installed`,
+    });
+    return steps;
+  }
+
+  if (!noSign && !(await this.adb.checkApkCert(app, appPackage, {requireDefaultCert: false}))) {
+    steps.push({
+      action: 'sign',
+      target: app,
+      reason: `The app is not signed and 'noSign' capability is not enabled`,
+    });
+  }
+  if (isInstalled && !skipUninstall) {
+    steps.push({
+      action: 'uninstall',
+      target: appPackage,
+      reason: `The app is already installed and 'skipUninstall' capability is not enabled`,
+    });
+  }
+  const isStillInstalled = isInstalled && !!skipUninstall;
+  if (fullReset) {
+    if (isStillInstalled) {
+      steps.push({
+        action: 'uninstall',
+        target: appPackage,
+        reason: `'fullReset' capability is enabled`,
+      });
+    }
+    steps.push({
+      action: 'install',
+      target: app,
+      reason: `'fullReset' capability is enabled`,
+    });
+    return steps;
+  }
+  if (!isStillInstalled) {
+    steps.push({
+      action: 'install',
+      target: app,
+      reason: isInstalled ? 'The app is going to be uninstalled in the previous step' : 'The app is not installed',
+    });
+    return steps;
+  }
+
+  const {APP_INSTALL_STATE} = this.adb;
+  const installState = await this.adb.getApplicationInstallState(app, appPackage);
+  let isInstalledOverExistingApp = true;
+  switch (installState) {
+    case APP_INSTALL_STATE.NEWER_VERSION_INSTALLED:
+      if (enforceAppInstall) {
+        steps.push({
+          action: 'uninstall',
+          target: appPackage,
+          reason: `A newer version of the app is installed and 'enforceAppInstall' capability is enabled`,
+        }, {
+          action: 'install',
+          target: app,
+          reason: `A newer version of the app is installed and 'enforceAppInstall' capability is enabled`,
+        });
+        isInstalledOverExistingApp = false;
+      } else {
+        steps.push({
+          action: 'none',
+          target: appPackage,
+          reason: `A newer version of the app is installed and 'enforceAppInstall' capability is not enabled`,
+        });
+      }
+      break;
+    case APP_INSTALL_STATE.SAME_VERSION_INSTALLED:
+      steps.push(enforceAppInstall
+        ? {
+          action: 'install',
+          target: app,
+          reason: `The same version of the app is installed and 'enforceAppInstall' capability is enabled`,
+        }
+        : {
+          action: 'none',
+          target: appPackage,
+          reason: 'The same version of the app is already installed',
+        });
+      break;
+    default:
+      steps.push({
+        action: 'upgrade',
+        target: app,
+        reason: `An older version of the app is installed or its version is unknown`,
+      });
+      break;
+  }
+  if (fastReset && isInstalledOverExistingApp) {
+    steps.push({
+      action: 'clearData',
+      target: appPackage,
+      reason: `'fastReset' capability is enabled`,
+    });
+  }
+  return steps;
+}
+
+/**
+ * Mirrors the decisions made by `initUiAutomator2Server` and `installServerApk`
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('../types').Uiautomator2DriverOpts} opts
+ * @returns {Promise<SetupStep[]>}
+ */
+async function planServerSetup(opts) {
+  if (opts.uiautomator2ServerUrl) {
+    return [{
+      action: 'none',
+      target: opts.uiautomator2ServerUrl,
+      reason: `'uiautomator2ServerUrl' capability is set, so the server is already running`,
+    }];
+  }
+  if (opts.skipServerInstallation) {
+    return [{
+      action: 'none',
+      target: null,
+      reason: `'skipServerInstallation' capability is enabled`,
+    }];
+  }
+
+  const {
+    packagesInfo,
+    shouldUninstallServerPackages,
+    shouldInstallServerPackages,
+  } = await this.uiautomator2.planServerInstallation();
+  const installStates = _.fromPairs(packagesInfo.map(({appId, installState}) => [appId, installState]));
+  /** @type {SetupStep[]} */
+  const steps = [];
+  if (shouldUninstallServerPackages) {
+    for (const {appId} of packagesInfo) {
+      steps.push({
+        action: 'uninstall',
+        target: appId,
+        reason: `Server packages install states are inconsistent: ${JSON.stringify(installStates)}`,
+      });
+    }
+  }
+  if (shouldInstallServerPackages) {
+    for (const {appId, appPath} of packagesInfo) {
+      steps.push({
+        action: 'install',
+        target: appPath,
+        reason: `The '${appId}' package must be (re)installed. Install states: ${JSON.stringify(installStates)}`,
+      });
+    }
+  } else {
+    steps.push({
+      action: 'none',
+      target: null,
+      reason: 'Server packages of the expected version are already installed',
+    });
+  }
+  return steps;
+}
+
+// #endregion
+
+/**
+ * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ * @typedef {import('./types').SessionSetupStep} SetupStep
+ */
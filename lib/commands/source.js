@@ -0,0 +1,396 @@
+import _ from 'lodash';
+import B from 'bluebird';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { errors } from 'appium/driver';
+import { util } from 'appium/support';
+import { ELEMENT_NODE_TYPE } from '../helpers';
+
+const SOURCE_FORMATS = ['xml', 'json'];
+// These attributes are used to find the subtree root element in the page source
+const ELEMENT_IDENTITY_ATTRIBUTES = ['class', 'resource-id', 'bounds', 'text', 'content-desc'];
+// Changes of these attributes are reported by source snapshots diffs
+const DIFF_ATTRIBUTES = ['text', 'enabled', 'checked', 'bounds'];
+// Older snapshots are dropped if the limit is exceeded, since page sources might be large
+const MAX_SOURCE_SNAPSHOTS = 20;
+
+/**
+ * Retrieves the page source of the application under test, optionally filtered
+ * and converted to JSON. Filtering is performed by the driver, so only the requested
+ * part of the page source is sent to the client.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').GetSourceOpts} [opts={}]
+ * @returns {Promise<string | import('./types').SourceNode>} The XML string or the root node
+ * of the JSON tree
+ */
+export async function mobileGetSource(opts = {}) {
+  const {
+    format = 'xml',
+    onlyVisible = false,
+    package: packageName,
+    maxDepth,
+    elementId,
+    attributes,
+  } = opts;
+  if (!_.includes(SOURCE_FORMATS, format)) {
+    throw new errors.InvalidArgumentError(`'format' must be one of ${JSON.stringify(SOURCE_FORMATS)}. Got '${format}'`);
+  }
+  if (!_.isNil(maxDepth) && (!_.isInteger(maxDepth) || maxDepth < 0)) {
+    throw new errors.InvalidArgumentError(`'maxDepth' must be a non-negative integer. Got ${maxDepth}`);
+  }
+  if (!_.isNil(attributes) && (!_.isArray(attributes) || !attributes.every(_.isString))) {
+    throw new errors.InvalidArgumentError(`'attributes' must be an array of attribute names`);
+  }
+
+  const [source, identity] = await B.all([
+    this.getPageSource(),
+    elementId ? fetchElementIdentity.bind(this)(elementId) : null,
+  ]);
+  const document = new DOMParser().parseFromString(source, 'text/xml');
+  const documentElement = /** @type {Element} */ (/** @type {unknown} */ (document.documentElement));
+  const roots = identity ? findElementsByIdentity(documentElement, identity) : [documentElement];
+  if (_.isEmpty(roots)) {
+    throw new errors.NoSuchElementError(
+      `The element '${elementId}' cannot be found in the current page source by its attributes: ${JSON.stringify(identity)}`
+    );
+  }
+  if (roots.length > 1) {
+    // for example nested containers of the same size
+    throw new errors.InvalidArgumentError(
+      `The element '${elementId}' cannot be unambiguously found in the current page source, ` +
+      `because ${roots.length} elements have the same attributes: ${JSON.stringify(identity)}. ` +
+      `Consider retrieving the subtree of its ancestor or descendant element instead`
+    );
+  }
+  const [root] = roots;
+  pruneNode(root, 0, {
+    isVisible: (node) => !onlyVisible || node.getAttribute('displayed') !== 'false',
+    isOfPackage: (node) => !packageName || !node.hasAttribute('package') || node.getAttribute('package') === packageName,
+    maxDepth: maxDepth ?? Number.POSITIVE_INFINITY,
+    attributes,
+  });
+  if (format === 'json') {
+    return toSourceNode(root);
+  }
+  return new XMLSerializer().serializeToString(
+    /** @type {any} */ (identity ? root : document)
+  );
+}
+
+/**
+ * Captures the current page source, so it could be compared with
+ * another one later using `mobile: diffSourceSnapshots`
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').CaptureSourceSnapshotOpts} [opts={}]
+ * @returns {Promise<import('./types').SourceSnapshotInfo>}
+ */
+export async function mobileCaptureSourceSnapshot(opts = {}) {
+  const {name = util.uuidV4()} = opts;
+  if (!_.isString(name) || _.isEmpty(name)) {
+    throw new errors.InvalidArgumentError(`'name' must be a non-empty string. Got ${JSON.stringify(name)}`);
+  }
+  const nodes = toSnapshotNodes(await this.getPageSource());
+  const capturedAt = new Date().toISOString();
+  // re-capturing a snapshot with the same name makes it the most recent one
+  this._sourceSnapshots.delete(name);
+  this._sourceSnapshots.set(name, {capturedAt, nodes});
+  if (this._sourceSnapshots.size > MAX_SOURCE_SNAPSHOTS) {
+    const [oldestName] = this._sourceSnapshots.keys();
+    this.log.info(`Dropping the oldest source snapshot '${oldestName}' as only ${MAX_SOURCE_SNAPSHOTS} are kept`);
+    this._sourceSnapshots.delete(oldestName);
+  }
+  return {name, capturedAt, nodesCount: nodes.length};
+}
+
+/**
+ * Compares two page source snapshots. Nodes are matched by their class names and
+ * resource identifiers. Nodes without resource identifiers are matched by their
+ * class names, texts and content descriptions instead, so they could be reported
+ * as moved as well. Nodes, which still cannot be matched, are compared by their index paths.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').DiffSourceSnapshotsOpts} opts
+ * @returns {Promise<import('./types').SourceSnapshotsDiff>}
+ */
+export async function mobileDiffSourceSnapshots(opts) {
+  const {from, to} = opts;
+  const fromNodes = requireSourceSnapshot.bind(this)(from).nodes;
+  const toNodes = _.isNil(to)
+    ? toSnapshotNodes(await this.getPageSource())
+    : requireSourceSnapshot.bind(this)(to).nodes;
+
+  /** @type {import('./types').SourceSnapshotsDiff} */
+  const diff = {
+    from,
+    to: to ?? null,
+    added: [],
+    removed: [],
+    moved: [],
+    changed: [],
+  };
+  const byIdentity = matchSnapshotNodes(fromNodes, toNodes, toIdentityKey);
+  // nodes without stable identities, whose texts have changed, are still found at the same place
+  const byPosition = matchSnapshotNodes(byIdentity.unmatchedFrom, byIdentity.unmatchedTo, toPositionKey);
+  diff.removed = byPosition.unmatchedFrom.map(toNodeInfo);
+  diff.added = byPosition.unmatchedTo.map(toNodeInfo);
+  for (const [fromNode, toNode] of [...byIdentity.pairs, ...byPosition.pairs]) {
+    if (fromNode.path !== toNode.path) {
+      diff.moved.push({...toNodeInfo(toNode), fromPath: fromNode.path});
+    }
+    const changes = DIFF_ATTRIBUTES
+      .filter((name) => fromNode.attributes[name] !== toNode.attributes[name])
+      .map((name) => ({
+        attribute: name,
+        from: fromNode.attributes[name] ?? null,
+        to: toNode.attributes[name] ?? null,
+      }));
+    if (!_.isEmpty(changes)) {
+      diff.changed.push({...toNodeInfo(toNode), changes});
+    }
+  }
+  for (const items of [diff.added, diff.removed, diff.moved, diff.changed]) {
+    items.sort((a, b) => comparePaths(a.path, b.path));
+  }
+  return diff;
+}
+
+// #region Internal Helpers
+
+/**
+ * @this {AndroidUiautomator2Driver}
+ * @param {any} name
+ * @returns {SourceSnapshotRecord}
+ */
+function requireSourceSnapshot(name) {
+  const snapshot = _.isString(name) ? this._sourceSnapshots.get(name) : undefined;
+  if (!snapshot) {
+    throw new errors.InvalidArgumentError(
+      `There is no source snapshot named ${JSON.stringify(name)}. ` +
+      `Known snapshots: ${JSON.stringify([...this._sourceSnapshots.keys()])}`
+    );
+  }
+  return snapshot;
+}
+
+/**
+ * Flattens the page source into the list of nodes in document order
+ *
+ * @param {string} source The XML page source
+ * @returns {SnapshotNode[]}
+ */
+function toSnapshotNodes(source) {
+  const document = new DOMParser().parseFromString(source, 'text/xml');
+  /** @type {SnapshotNode[]} */
+  const result = [];
+  /**
+   * @param {Element} node
+   * @param {string} path
+   */
+  const visit = (node, path) => {
+    result.push({
+      path,
+      className: node.getAttribute('class') || node.nodeName,
+      resourceId: node.getAttribute('resource-id') || null,
+      contentDesc: node.getAttribute('content-desc') || null,
+      attributes: _.fromPairs(
+        DIFF_ATTRIBUTES.filter((name) => node.hasAttribute(name)).map((name) => [name, String(node.getAttribute(name))])
+      ),
+    });
+    Array.from(node.childNodes)
+      .filter((child) => child.nodeType === ELEMENT_NODE_TYPE)
+      .forEach((child, index) => visit(/** @type {Element} */ (child), `${path}/${index}`));
+  };
+  visit(/** @type {Element} */ (/** @type {unknown} */ (document.documentElement)), '0');
+  return result;
+}
+
+/**
+ * Pairs nodes having the same keys. Nodes staying at the same place are paired first,
+ * then nodes having the same index among their siblings, then the rest in document order.
+ *
+ * @param {SnapshotNode[]} fromNodes
+ * @param {SnapshotNode[]} toNodes
+ * @param {(node: SnapshotNode) => string} toKey
+ * @returns {SnapshotNodesMatch}
+ */
+function matchSnapshotNodes(fromNodes, toNodes, toKey) {
+  /** @type {SnapshotNodesMatch} */
+  const result = {pairs: [], unmatchedFrom: [], unmatchedTo: []};
+  const fromGroups = _.groupBy(fromNodes, toKey);
+  const toGroups = _.groupBy(toNodes, toKey);
+  /** @type {((fromNode: SnapshotNode, toNode: SnapshotNode) => boolean)[]} */
+  const matchers = [
+    (fromNode, toNode) => fromNode.path === toNode.path,
+    (fromNode, toNode) => _.last(fromNode.path.split('/')) === _.last(toNode.path.split('/')),
+    _.stubTrue,
+  ];
+  for (const key of _.union(_.keys(fromGroups), _.keys(toGroups))) {
+    const fromGroup = [...(fromGroups[key] ?? [])];
+    const toGroup = [...(toGroups[key] ?? [])];
+    for (const matcher of matchers) {
+      for (const fromNode of [...fromGroup]) {
+        const toNode = toGroup.find((node) => matcher(fromNode, node));
+        if (toNode) {
+          result.pairs.push([fromNode, toNode]);
+          _.pull(fromGroup, fromNode);
+          _.pull(toGroup, toNode);
+        }
+      }
+    }
+    result.unmatchedFrom.push(...fromGroup);
+    result.unmatchedTo.push(...toGroup);
+  }
+  return result;
+}
+
+/**
+ * @param {SnapshotNode} node
+ * @returns {string}
+ */
+function toIdentityKey(node) {
+  const {className, resourceId, contentDesc, attributes} = node;
+  if (resourceId) {
+    return `${className}#${resourceId}`;
+  }
+  return attributes.text || contentDesc
+    ? `${className}|${attributes.text ?? ''}|${contentDesc ?? ''}`
+    : toPositionKey(node);
+}
+
+/**
+ * @param {SnapshotNode} node
+ * @returns {string}
+ */
+function toPositionKey({className, path}) {
+  return `${className}@${path}`;
+}
+
+/**
+ * @param {SnapshotNode} node
+ * @returns {import('./types').SourceDiffNode}
+ */
+function toNodeInfo({className, resourceId, path, attributes}) {
+  return {
+    className,
+    resourceId,
+    path,
+    text: attributes.text ?? null,
+  };
+}
+
+/**
+ * Compares index paths, so the parent goes before its children
+ * and siblings are ordered by their indexes
+ *
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+function comparePaths(a, b) {
+  const aIndexes = a.split('/').map(Number);
+  const bIndexes = b.split('/').map(Number);
+  for (let i = 0; i < Math.min(aIndexes.length, bIndexes.length); i++) {
+    if (aIndexes[i] !== bIndexes[i]) {
+      return aIndexes[i] - bIndexes[i];
+    }
+  }
+  return aIndexes.length - bIndexes.length;
+}
+
+/**
+ * @this {AndroidUiautomator2Driver}
+ * @param {string} elementId
+ * @returns {Promise<import('@appium/types').StringRecord<string|null>>}
+ */
+async function fetchElementIdentity(elementId) {
+  const values = await B.all(ELEMENT_IDENTITY_ATTRIBUTES.map((name) => this.getAttribute(name, elementId)));
+  return _.zipObject(ELEMENT_IDENTITY_ATTRIBUTES, values);
+}
+
+/**
+ * @param {Element} root
+ * @param {import('@appium/types').StringRecord<string|null>} identity
+ * @returns {Element[]} All elements with the given attribute values in document order
+ */
+function findElementsByIdentity(root, identity) {
+  const isMatching = (/** @type {Element} */ node) => _.every(
+    identity,
+    // missing attributes are returned as 'null' strings by the server
+    (value, name) => _.isNil(value) || value === 'null'
+      ? !node.hasAttribute(name) || node.getAttribute(name) === ''
+      : node.getAttribute(name) === value
+  );
+  return [root, ...Array.from(root.getElementsByTagName('*'))].filter(isMatching);
+}
+
+/**
+ * Removes descendant elements not matching the given filters along with their subtrees
+ * and attributes not included to the whitelist
+ *
+ * @param {Element} node
+ * @param {number} depth The depth of the node relatively to the root of the result
+ * @param {SourceFilters} filters
+ */
+function pruneNode(node, depth, filters) {
+  if (filters.attributes) {
+    for (const {name} of Array.from(node.attributes)) {
+      if (!filters.attributes.includes(name)) {
+        node.removeAttribute(name);
+      }
+    }
+  }
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType !== ELEMENT_NODE_TYPE) {
+      continue;
+    }
+    const element = /** @type {Element} */ (child);
+    if (depth >= filters.maxDepth || !filters.isVisible(element) || !filters.isOfPackage(element)) {
+      node.removeChild(child);
+    } else {
+      pruneNode(element, depth + 1, filters);
+    }
+  }
+}
+
+/**
+ * @param {Element} node
+ * @returns {import('./types').SourceNode}
+ */
+function toSourceNode(node) {
+  return {
+    tagName: node.nodeName,
+    attributes: _.fromPairs(Array.from(node.attributes).map(({name, value}) => [name, value])),
+    children: Array.from(node.childNodes)
+      .filter((child) => child.nodeType === ELEMENT_NODE_TYPE)
+      .map((child) => toSourceNode(/** @type {Element} */ (child))),
+  };
+}
+
+// #endregion
+
+/**
+ * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ *
+ * @typedef {Object} SourceFilters
+ * @property {(node: Element) => boolean} isVisible
+ * @property {(node: Element) => boolean} isOfPackage
+ * @property {number} maxDepth
+ * @property {string[]} [attributes] The whitelist of attribute names
+ *
+ * @typedef {Object} SnapshotNode
+ * @property {string} path Slash-separated zero-based indexes of the node and its ancestors among their siblings
+ * @property {string} className
+ * @property {string|null} resourceId
+ * @property {string|null} contentDesc
+ * @property {import('@appium/types').StringRecord<string>} attributes Values of compared attributes
+ *
+ * @typedef {Object} SnapshotNodesMatch
+ * @property {[SnapshotNode, SnapshotNode][]} pairs
+ * @property {SnapshotNode[]} unmatchedFrom
+ * @property {SnapshotNode[]} unmatchedTo
+ *
+ * @typedef {Object} SourceSnapshotRecord
+ * @property {string} capturedAt
+ * @property {SnapshotNode[]} nodes
+ */
@@ -0,0 +1,60 @@
+import _ from 'lodash';
+
+const BIDI_EVENT_NAME = 'bidiEvent';
+const SESSION_TEARDOWN_FINISHED_EVENT = 'appium:uiautomator2.sessionTeardownFinished';
+
+/**
+ * Registers an additional cleanup step, which is executed while the current session
+ * is being deleted. Hooks are executed in the order of their registration before
+ * the built-in teardown steps, so the device and the UiAutomator2 server are still
+ * available to them. Their outcomes are recorded in the teardown report under
+ * the `hook:<name>` step name. This API is intended to be used by plugins.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {string} name The unique name of the hook. A hook with the same name
+ * registered earlier gets replaced.
+ * @param {import('../types').Uiautomator2TeardownHook} hook
+ * @returns {void}
+ */
+export function registerTeardownHook(name, hook) {
+  if (!_.isString(name) || _.isEmpty(name)) {
+    throw this.log.errorWithException(`Teardown hook name must be a non-empty string. '${name}' is given instead`);
+  }
+  if (!_.isFunction(hook)) {
+    throw this.log.errorWithException(`The teardown hook '${name}' must be a function`);
+  }
+  if (this.teardownHooks.has(name)) {
+    this.log.debug(`Replacing the previously registered teardown hook '${name}'`);
+    this.teardownHooks.delete(name);
+  }
+  this.teardownHooks.set(name, hook);
+}
+
+/**
+ * Removes the previously registered teardown hook
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {string} name The name of the hook
+ * @returns {boolean} True if the hook has been registered before
+ */
+export function unregisterTeardownHook(name) {
+  return this.teardownHooks.delete(name);
+}
+
+/**
+ * Emits a BiDi event containing the report of the finished session teardown
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('../types').Uiautomator2TeardownReport} report
+ * @returns {void}
+ */
+export function notifyBiDiSessionTeardown(report) {
+  this.eventEmitter.emit(BIDI_EVENT_NAME, {
+    method: SESSION_TEARDOWN_FINISHED_EVENT,
+    params: report,
+  });
+}
+
+/**
+ * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ */
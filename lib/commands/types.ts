@@ -1,4 +1,5 @@
-import {Rect, StringRecord} from '@appium/types';
+import {Element, Rect, StringRecord} from '@appium/types';
+import type {Uiautomator2Settings} from '../types';
 
 /**
  * Represents options for pressing a key on an Android device.
@@ -486,3 +487,494 @@ export interface SetClipboardOpts {
    */
   label?: string;
 }
+
+export interface ServerHealthCheck {
+  /**
+   * Unix timestamp of the check in milliseconds
+   */
+  timestamp: number;
+  /**
+   * Whether the server has responded to the status request
+   */
+  healthy: boolean;
+  /**
+   * The duration of the status request in milliseconds
+   */
+  latencyMs?: number;
+  /**
+   * The reason why the server is considered unhealthy
+   */
+  error?: string;
+}
+
+export interface ServerHealthInfo {
+  /**
+   * Whether the server health watchdog is running
+   */
+  watchdogEnabled: boolean;
+  /**
+   * The result of the most recent health check or `null` if no checks have been made yet
+   */
+  healthy: boolean | null;
+  /**
+   * Recent health checks sorted by their timestamps
+   */
+  history: ServerHealthCheck[];
+}
+
+export interface RouteStats {
+  /**
+   * The count of requests to the route
+   */
+  count: number;
+  /**
+   * The total duration of all requests to the route in milliseconds
+   */
+  totalMs: number;
+  /**
+   * Counts of failed requests by their HTTP status codes.
+   * Requests failed without a response are counted as `unknown`
+   */
+  errors: StringRecord<number>;
+  /**
+   * Latency of the route requests in milliseconds. Percentiles are calculated
+   * over the 1000 most recent requests
+   */
+  latencyMs: {
+    p50: number;
+    p95: number;
+    max: number;
+  };
+}
+
+export interface TranslateSelectorOpts {
+  /**
+   * One of the supported locator strategies, for example `css selector`
+   */
+  strategy: string;
+  selector: string;
+  /**
+   * Whether the selector is going to be used to find multiple elements
+   * @defaultValue false
+   */
+  multiple?: boolean;
+}
+
+export interface TranslatedSelector {
+  /**
+   * Whether the selector could be sent to the server. The server might still
+   * reject it if its syntax is only partially verified by the driver, for example for `-android uiautomator` selectors
+   */
+  valid: boolean;
+  /**
+   * The locator strategy sent to the server. Only present if the selector is valid
+   */
+  strategy?: string;
+  /**
+   * The selector sent to the server. Only present if the selector is valid
+   */
+  selector?: string;
+  /**
+   * The HTTP method and the path of the server endpoint the lookup request is sent to,
+   * for example `POST /element`. Only present if the selector is valid
+   */
+  endpoint?: string;
+  /**
+   * Whether the original locator has been rewritten by the driver. Only present if the selector is valid
+   */
+  rewritten?: boolean;
+  /**
+   * The reason why the selector is not valid
+   */
+  error?: string;
+  /**
+   * Zero-based position of the selector syntax error if it is known or null otherwise.
+   * Only present if the selector is not valid
+   */
+  position?: number | null;
+}
+
+export interface PushSettingsOpts {
+  /**
+   * Settings to apply. Their previous values are restored by `mobile: popSettings`
+   */
+  settings: Partial<Uiautomator2Settings>;
+}
+
+export interface SessionSetupPlanOpts {
+  /**
+   * Capabilities to override the current session ones while calculating the plan.
+   * Capability names must not contain vendor prefixes.
+   */
+  capabilities?: StringRecord;
+}
+
+export interface SessionSetupStep {
+  /**
+   * The action to be performed. `none` means nothing is going to be done and
+   * `fail` means the session creation is going to fail
+   */
+  action: 'install' | 'installOrUpgrade' | 'upgrade' | 'uninstall' | 'sign' | 'clearData' | 'none' | 'fail';
+  /**
+   * The package name or the path to the package file the action is applied to
+   */
+  target: string | null;
+  /**
+   * Human-readable explanation of why the action is chosen
+   */
+  reason: string;
+}
+
+export interface SessionSetupPlan {
+  /**
+   * Setup steps of the application under test and other applications in the order of their execution
+   */
+  app: SessionSetupStep[];
+  /**
+   * Setup steps of UiAutomator2 server packages in the order of their execution
+   */
+  server: SessionSetupStep[];
+}
+
+export type WaitForCondition =
+  | 'present'
+  | 'absent'
+  | 'displayed'
+  | 'enabled'
+  | 'textEquals'
+  | 'textMatches'
+  | 'attributeEquals'
+  | 'count';
+
+export interface WaitForOpts {
+  /**
+   * One of the supported locator strategies, for example `id`
+   */
+  strategy: string;
+  selector: string;
+  /**
+   * The condition to wait for. Element state conditions are verified for the first located element
+   */
+  condition: WaitForCondition;
+  /**
+   * The expected text or attribute value for `textEquals` and `attributeEquals` conditions
+   * or the regular expression for the `textMatches` condition
+   */
+  value?: string;
+  /**
+   * The name of the attribute for the `attributeEquals` condition
+   */
+  attribute?: string;
+  /**
+   * The expected count of located elements for the `count` condition
+   */
+  count?: number;
+  /**
+   * The maximum number of milliseconds to wait for the condition
+   * @defaultValue 10000
+   */
+  timeout?: number;
+  /**
+   * The number of milliseconds between condition checks
+   * @defaultValue 500
+   */
+  interval?: number;
+}
+
+export interface WaitForState {
+  /**
+   * The count of located elements
+   */
+  count: number;
+  displayed?: boolean;
+  enabled?: boolean;
+  text?: string;
+  attribute?: string | null;
+  /**
+   * The error, which has happened while the state has been observed,
+   * for example if the element has become stale
+   */
+  error?: string;
+}
+
+export interface WaitForResult {
+  elapsedMs: number;
+  /**
+   * The count of performed condition checks
+   */
+  attempts: number;
+  /**
+   * The state, which has met the condition
+   */
+  state: WaitForState;
+  /**
+   * Elements located by the last condition check
+   */
+  elements: Element[];
+}
+
+export interface WaitForStableUiOpts {
+  /**
+   * The number of milliseconds the page source must stay unchanged
+   * @defaultValue 1000
+   */
+  quietPeriod?: number;
+  /**
+   * The maximum number of milliseconds to wait for the UI to become stable
+   * @defaultValue 10000
+   */
+  timeout?: number;
+  /**
+   * The number of milliseconds between page source samples
+   * @defaultValue 250
+   */
+  interval?: number;
+  /**
+   * Names of volatile attributes, which are excluded from the comparison for all elements,
+   * for example `['bounds']`
+   */
+  ignoredAttributes?: string[];
+  /**
+   * XPath expression matching volatile elements, which are excluded from the comparison
+   * along with their descendants, for example `//*[@resource-id="com.mycompany:id/clock"]`
+   */
+  ignoredElements?: string;
+}
+
+export interface StableUiResult {
+  /**
+   * Whether the page source has stayed the same for the quiet period before the timeout
+   */
+  stable: boolean;
+  /**
+   * The count of retrieved page source samples
+   */
+  samples: number;
+  elapsedMs: number;
+  /**
+   * The number of milliseconds the page source has stayed the same by the end of the wait
+   */
+  stableForMs: number;
+}
+
+export interface GetSourceOpts {
+  /**
+   * The format of the returned page source
+   * @defaultValue 'xml'
+   */
+  format?: 'xml' | 'json';
+  /**
+   * Whether to exclude elements, whose `displayed` attribute is `false`, along with their descendants
+   * @defaultValue false
+   */
+  onlyVisible?: boolean;
+  /**
+   * If set then elements belonging to other packages are excluded along with their descendants
+   */
+  package?: string;
+  /**
+   * The maximum depth of returned elements. The root element has zero depth
+   */
+  maxDepth?: number;
+  /**
+   * The identifier of the element to return the subtree of. The whole page source is returned if unset
+   */
+  elementId?: string;
+  /**
+   * Names of attributes to keep. All attributes are kept if unset
+   */
+  attributes?: string[];
+}
+
+export interface SourceNode {
+  tagName: string;
+  attributes: StringRecord<string>;
+  children: SourceNode[];
+}
+
+export interface CaptureSourceSnapshotOpts {
+  /**
+   * The name of the snapshot. A random one is generated if unset.
+   * The previous snapshot with the same name gets replaced
+   */
+  name?: string;
+}
+
+export interface SourceSnapshotInfo {
+  name: string;
+  /**
+   * ISO-8601 timestamp of the snapshot creation
+   */
+  capturedAt: string;
+  /**
+   * The count of elements in the captured page source
+   */
+  nodesCount: number;
+}
+
+export interface DiffSourceSnapshotsOpts {
+  /**
+   * The name of the original snapshot
+   */
+  from: string;
+  /**
+   * The name of the snapshot to compare with. The current page source is used if unset
+   */
+  to?: string;
+}
+
+export interface SourceDiffNode {
+  className: string;
+  resourceId: string | null;
+  /**
+   * Slash-separated zero-based indexes of the node and its ancestors among their siblings, for example `0/1/3`
+   */
+  path: string;
+  text: string | null;
+}
+
+export interface SourceDiffMovedNode extends SourceDiffNode {
+  /**
+   * The path of the node in the original snapshot
+   */
+  fromPath: string;
+}
+
+export interface SourceDiffAttributeChange {
+  attribute: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface SourceDiffChangedNode extends SourceDiffNode {
+  changes: SourceDiffAttributeChange[];
+}
+
+export interface SourceSnapshotsDiff {
+  from: string;
+  /**
+   * The name of the compared snapshot or null if it is the current page source
+   */
+  to: string | null;
+  added: SourceDiffNode[];
+  removed: SourceDiffNode[];
+  moved: SourceDiffMovedNode[];
+  /**
+   * Nodes, whose `text`, `enabled`, `checked` or `bounds` attributes have changed
+   */
+  changed: SourceDiffChangedNode[];
+}
+
+export interface GetElementsPropertiesOpts {
+  /**
+   * Identifiers of elements to retrieve properties of
+   */
+  elements: (string | Element)[];
+  /**
+   * Names of properties to retrieve, for example `['text', 'rect', 'content-desc']`.
+   * Names other than `text`, `rect`, `location`, `size`, `name`, `displayed`, `enabled`
+   * and `selected` are treated as attribute names
+   */
+  properties: string[];
+}
+
+export interface ElementPropertiesResult {
+  /**
+   * Retrieved property values. Empty if the element has failed
+   */
+  properties: StringRecord<unknown>;
+  /**
+   * The first error, which has happened while retrieving properties of the element
+   */
+  error?: {
+    /**
+     * W3C error code, for example `stale element reference`
+     */
+    error: string;
+    message: string;
+  };
+}
+
+export type AccessibilityCheck = 'missingLabel' | 'smallTouchTarget' | 'duplicateDescription' | 'unlabeledFocusable';
+
+export interface AccessibilityAuditOpts {
+  /**
+   * Checks to perform. All checks are performed by default
+   */
+  checks?: AccessibilityCheck[];
+  /**
+   * The minimum width and height of touch targets in density-independent pixels.
+   * 48 by default
+   */
+  minTouchTargetSize?: number;
+}
+
+export interface AccessibilityFinding {
+  check: AccessibilityCheck;
+  message: string;
+  /**
+   * The absolute XPath of the element, for example `/hierarchy/android.widget.FrameLayout[1]/android.widget.Button[2]`
+   */
+  xpath: string;
+  /**
+   * The value of the `bounds` element attribute, for example `[0,100][1080,200]`
+   */
+  bounds: string | null;
+  className: string;
+}
+
+export interface AccessibilityAuditResult {
+  /**
+   * The display density in dpi used to calculate touch target sizes
+   */
+  density: number;
+  findings: AccessibilityFinding[];
+}
+
+export interface ScrollToElementOpts {
+  /**
+   * Any supported locator strategy, for example `xpath`, `id` or `css selector`
+   */
+  strategy: string;
+  /**
+   * The corresponding lookup value for the given strategy
+   */
+  selector: string;
+  /**
+   * The identifier of the container element to scroll.
+   * If it is missing then the scroll bounding area must be provided
+   */
+  elementId?: string;
+  /**
+   * The left coordinate of the scroll bounding area
+   */
+  left?: number;
+  /**
+   * The top coordinate of the scroll bounding area
+   */
+  top?: number;
+  /**
+   * The width of the scroll bounding area
+   */
+  width?: number;
+  /**
+   * The height of the scroll bounding area
+   */
+  height?: number;
+  /**
+   * Direction of the scroll: `up`, `down` (the default value), `left` or `right`
+   */
+  direction?: string;
+  /**
+   * The maximum number of scroll gestures to perform. 10 by default
+   */
+  maxSwipes?: number;
+  /**
+   * The size of each scroll as a percentage of the scrolling area size. 0.7 by default
+   */
+  percent?: number;
+  /**
+   * The speed of each scroll gesture in pixels per second
+   */
+  speed?: number;
+}
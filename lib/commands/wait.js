@@ -0,0 +1,180 @@
+import _ from 'lodash';
+import B from 'bluebird';
+import { errors, isErrorType } from 'appium/driver';
+import { timing, util } from 'appium/support';
+import { toActualError } from '../helpers';
+import { dropLookupSnapshot } from '../lookup-snapshot';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_INTERVAL_MS = 500;
+/** @type {import('./types').WaitForCondition[]} */
+const CONDITIONS_WITH_VALUE = ['textEquals', 'textMatches', 'attributeEquals'];
+/** @type {import('./types').WaitForCondition[]} */
+const WAIT_FOR_CONDITIONS = [
+  'present',
+  'absent',
+  'displayed',
+  'enabled',
+  ...CONDITIONS_WITH_VALUE,
+  'count',
+];
+
+/**
+ * Waits until elements located by the given locator meet the given condition.
+ * The condition is polled by the driver itself, so clients do not need to send
+ * lookup requests over the network repeatedly. Element state conditions are
+ * verified for the first located element.
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').WaitForOpts} opts
+ * @returns {Promise<import('./types').WaitForResult>}
+ * @throws {errors.TimeoutError} If the condition has not been met within the given timeout.
+ * The error message contains the last observed state.
+ */
+export async function mobileWaitFor(opts) {
+  const {
+    strategy,
+    selector,
+    condition,
+    timeout = DEFAULT_TIMEOUT_MS,
+    interval = DEFAULT_INTERVAL_MS,
+  } = opts;
+  if (!_.isString(strategy) || !_.isString(selector) || _.isEmpty(selector)) {
+    throw new errors.InvalidArgumentError(`Both 'strategy' and 'selector' arguments must be non-empty strings`);
+  }
+  this.validateLocatorStrategy(strategy);
+  const isConditionMet = toConditionPredicate(opts);
+  for (const [name, value] of /** @type {[string, number][]} */ ([['timeout', timeout], ['interval', interval]])) {
+    if (!_.isFinite(value) || value < 0) {
+      throw new errors.InvalidArgumentError(`'${name}' must be a non-negative number of milliseconds. Got ${value}`);
+    }
+  }
+
+  const timer = new timing.Timer().start();
+  let attempts = 0;
+  while (true) {
+    attempts++;
+    const {state, elements} = await observeState.bind(this)(opts);
+    const elapsedMs = Math.round(timer.getDuration().asMilliSeconds);
+    if (isConditionMet(state)) {
+      this.log.debug(`The '${condition}' condition has been met after ${attempts} attempt(s) in ${elapsedMs}ms`);
+      return {elapsedMs, attempts, state, elements};
+    }
+    if (elapsedMs >= timeout) {
+      throw new errors.TimeoutError(
+        `The '${condition}' condition has not been met for elements located by ${strategy} '${selector}' ` +
+        `within ${timeout}ms after ${attempts} attempt(s). Last observed state: ${JSON.stringify(state)}`
+      );
+    }
+    await B.delay(Math.min(interval, timeout - elapsedMs));
+  }
+}
+
+// #region Internal Helpers
+
+/**
+ * @param {import('./types').WaitForOpts} opts
+ * @returns {(state: import('./types').WaitForState) => boolean}
+ */
+function toConditionPredicate({condition, value, attribute, count}) {
+  if (!_.includes(WAIT_FOR_CONDITIONS, condition)) {
+    throw new errors.InvalidArgumentError(
+      `'condition' must be one of ${JSON.stringify(WAIT_FOR_CONDITIONS)}. Got '${condition}'`
+    );
+  }
+  if (_.includes(CONDITIONS_WITH_VALUE, condition) && !_.isString(value)) {
+    throw new errors.InvalidArgumentError(`'value' must be a string for the '${condition}' condition`);
+  }
+  switch (condition) {
+    case 'present':
+      return (state) => state.count > 0;
+    case 'absent':
+      return (state) => state.count === 0 && !state.error;
+    case 'displayed':
+      return (state) => state.displayed === true;
+    case 'enabled':
+      return (state) => state.enabled === true;
+    case 'textEquals':
+      return (state) => state.text === value;
+    case 'textMatches': {
+      let pattern;
+      try {
+        pattern = new RegExp(/** @type {string} */ (value));
+      } catch (e) {
+        throw new errors.InvalidArgumentError(`'value' must be a valid regular expression: ${e.message}`);
+      }
+      return (state) => _.isString(state.text) && pattern.test(state.text);
+    }
+    case 'attributeEquals':
+      if (!_.isString(attribute) || _.isEmpty(attribute)) {
+        throw new errors.InvalidArgumentError(`'attribute' must be set for the '${condition}' condition`);
+      }
+      return (state) => state.attribute === value;
+    case 'count':
+      if (!_.isInteger(count) || /** @type {number} */ (count) < 0) {
+        throw new errors.InvalidArgumentError(
+          `'count' must be a non-negative integer for the '${condition}' condition. Got ${count}`
+        );
+      }
+      return (state) => state.count === count;
+  }
+}
+
+/**
+ * Looks up elements and retrieves the properties of the first one,
+ * which are necessary to verify the condition
+ *
+ * @this {AndroidUiautomator2Driver}
+ * @param {import('./types').WaitForOpts} opts
+ * @returns {Promise<{state: import('./types').WaitForState, elements: Element[]}>}
+ */
+async function observeState({strategy, selector, condition, attribute}) {
+  /** @type {import('./types').WaitForState} */
+  const state = {count: 0};
+  // each attempt must observe the actual hierarchy
+  dropLookupSnapshot.bind(this)();
+  /** @type {Element[]} */
+  let elements = [];
+  try {
+    elements = /** @type {Element[]} */ (await this.doFindElementOrEls({
+      strategy,
+      selector,
+      multiple: true,
+      context: '',
+    }));
+    state.count = elements.length;
+    const elementId = _.isEmpty(elements) ? null : util.unwrapElement(elements[0]);
+    if (elementId) {
+      switch (condition) {
+        case 'displayed':
+          state.displayed = await this.elementDisplayed(elementId);
+          break;
+        case 'enabled':
+          state.enabled = await this.elementEnabled(elementId);
+          break;
+        case 'textEquals':
+        case 'textMatches':
+          state.text = await this.getText(elementId);
+          break;
+        case 'attributeEquals':
+          state.attribute = await this.getAttribute(/** @type {string} */ (attribute), elementId);
+          break;
+      }
+    }
+  } catch (e) {
+    const err = toActualError(e);
+    // the hierarchy might be changing while it is being observed
+    if (!isErrorType(err, errors.NoSuchElementError) && !isErrorType(err, errors.StaleElementReferenceError)) {
+      throw err;
+    }
+    state.error = err.message;
+  }
+  return {state, elements};
+}
+
+// #endregion
+
+/**
+ * @typedef {import('../driver').AndroidUiautomator2Driver} AndroidUiautomator2Driver
+ * @typedef {import('@appium/types').Element} Element
+ */
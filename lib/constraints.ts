@@ -14,18 +14,51 @@ const UIAUTOMATOR2_CONSTRAINTS = {
   uiautomator2ServerReadTimeout: {
     isNumber: true,
   },
+  uiautomator2ServerCrashRecovery: {
+    isBoolean: true,
+  },
+  uiautomator2ServerHealthCheckInterval: {
+    isNumber: true,
+  },
+  uiautomator2ServerInstrumentationArgs: {
+    isObject: true,
+  },
+  uiautomator2ServerInstrumentationRunner: {
+    isString: true,
+  },
+  uiautomator2ServerInstrumentationUser: {
+    isString: true,
+  },
+  initialSettings: {
+    isObject: true,
+  },
   systemPort: {
     isNumber: true,
   },
+  systemPortRange: {
+    isArray: true,
+  },
   mjpegServerPort: {
     isNumber: true,
   },
+  mjpegServerPortRange: {
+    isArray: true,
+  },
   mjpegScreenshotUrl: {
     isString: true,
   },
   skipServerInstallation: {
     isBoolean: true,
   },
+  uiautomator2ServerUrl: {
+    isString: true,
+  },
+  deviceLeaseTimeout: {
+    isNumber: true,
+  },
+  sessionSetupPlanOnly: {
+    isBoolean: true,
+  },
   disableSuppressAccessibilityService: {
     isBoolean: true,
   },
@@ -41,3 +74,161 @@ const UIAUTOMATOR2_CONSTRAINTS = {
 export default UIAUTOMATOR2_CONSTRAINTS;
 
 export type Uiautomator2Constraints = typeof UIAUTOMATOR2_CONSTRAINTS;
+
+const NON_NEGATIVE_RANGE: readonly [number, number] = [0, Number.MAX_SAFE_INTEGER];
+const PORT_RANGE: readonly [number, number] = [1024, 65535];
+
+export const UIAUTOMATOR2_SETTINGS_CONSTRAINTS = {
+  actionAcknowledgmentTimeout: {
+    isNumber: true,
+  },
+  allowInvisibleElements: {
+    isBoolean: true,
+  },
+  ignoreUnimportantViews: {
+    isBoolean: true,
+  },
+  elementResponseAttributes: {
+    isString: true,
+  },
+  enableMultiWindows: {
+    isBoolean: true,
+  },
+  enableTopmostWindowFromActivePackage: {
+    isBoolean: true,
+  },
+  enableNotificationListener: {
+    isBoolean: true,
+  },
+  keyInjectionDelay: {
+    isNumber: true,
+  },
+  scrollAcknowledgmentTimeout: {
+    isNumber: true,
+  },
+  shouldUseCompactResponses: {
+    isBoolean: true,
+  },
+  waitForIdleTimeout: {
+    isNumber: true,
+  },
+  waitForSelectorTimeout: {
+    isNumber: true,
+  },
+  normalizeTagNames: {
+    isBoolean: true,
+  },
+  shutdownOnPowerDisconnect: {
+    isBoolean: true,
+  },
+  simpleBoundsCalculation: {
+    isBoolean: true,
+  },
+  trackScrollEvents: {
+    isBoolean: true,
+  },
+  wakeLockTimeout: {
+    isNumber: true,
+  },
+  serverPort: {
+    isNumber: true,
+  },
+  mjpegServerPort: {
+    isNumber: true,
+  },
+  mjpegServerFramerate: {
+    isNumber: true,
+  },
+  mjpegScalingFactor: {
+    isNumber: true,
+  },
+  mjpegServerScreenshotQuality: {
+    isNumber: true,
+  },
+  mjpegBilinearFiltering: {
+    isBoolean: true,
+  },
+  useResourcesForOrientationDetection: {
+    isBoolean: true,
+  },
+  enforceXPath1: {
+    isBoolean: true,
+  },
+  limitXPathContextScope: {
+    isBoolean: true,
+  },
+  disableIdLocatorAutocompletion: {
+    isBoolean: true,
+  },
+  includeExtrasInPageSource: {
+    isBoolean: true,
+  },
+  snapshotMaxDepth: {
+    isNumber: true,
+  },
+  currentDisplayId: {
+    isNumber: true,
+  },
+  includeA11yActionsInPageSource: {
+    isBoolean: true,
+  },
+  // The settings below are consumed by the driver itself
+  enableSnapshotLookup: {
+    isBoolean: true,
+  },
+  enableStaleElementRecovery: {
+    isBoolean: true,
+  },
+  // The settings below are consumed by the images plugin
+  imageMatchThreshold: {
+    isNumber: true,
+  },
+  fixImageFindScreenshotDims: {
+    isBoolean: true,
+  },
+  fixImageTemplateSize: {
+    isBoolean: true,
+  },
+  fixImageTemplateScale: {
+    isBoolean: true,
+  },
+  defaultImageTemplateScale: {
+    isNumber: true,
+  },
+  checkForImageElementStaleness: {
+    isBoolean: true,
+  },
+  autoUpdateImageElementPosition: {
+    isBoolean: true,
+  },
+  imageElementTapStrategy: {
+    isString: true,
+    inclusion: ['w3cActions', 'touchActions'],
+  },
+  getMatchedImageResult: {
+    isBoolean: true,
+  },
+} as const satisfies Constraints;
+
+export type Uiautomator2SettingsConstraints = typeof UIAUTOMATOR2_SETTINGS_CONSTRAINTS;
+
+/**
+ * Inclusive ranges of allowed values of integer settings
+ */
+export const UIAUTOMATOR2_SETTINGS_RANGES: Readonly<
+  Partial<Record<keyof Uiautomator2SettingsConstraints, readonly [number, number]>>
+> = {
+  actionAcknowledgmentTimeout: NON_NEGATIVE_RANGE,
+  keyInjectionDelay: NON_NEGATIVE_RANGE,
+  scrollAcknowledgmentTimeout: NON_NEGATIVE_RANGE,
+  waitForIdleTimeout: NON_NEGATIVE_RANGE,
+  waitForSelectorTimeout: NON_NEGATIVE_RANGE,
+  wakeLockTimeout: NON_NEGATIVE_RANGE,
+  serverPort: PORT_RANGE,
+  mjpegServerPort: PORT_RANGE,
+  mjpegServerFramerate: [1, 60],
+  mjpegScalingFactor: [1, 100],
+  mjpegServerScreenshotQuality: [1, 100],
+  snapshotMaxDepth: [1, 500],
+  currentDisplayId: NON_NEGATIVE_RANGE,
+};
@@ -2,18 +2,22 @@ import { createParser } from 'css-selector-parser';
 import _ from 'lodash';
 import { errors } from 'appium/driver';
 import log from './logger';
+import { toXPathLiteral } from './helpers';
 
 const parseCssSelector = createParser({
   syntax: {
     pseudoClasses: {
       unknown: 'accept',
       definitions: {
-        Selector: ['has'],
+        Selector: ['has', 'not'],
+        NoArgument: ['first-child', 'last-child', 'only-child'],
+        Formula: ['nth-child'],
       }
     },
     combinators: ['>', '+', '~'],
     attributes: {
-      operators: ['^=', '$=', '*=', '~=', '=']
+      operators: ['^=', '$=', '*=', '~=', '='],
+      caseSensitivityModifiers: ['i', 'I', 's', 'S'],
     },
     ids: true,
     classNames: true,
@@ -53,9 +57,24 @@ const ATTRIBUTE_ALIASES = [
     'content-description', 'content-desc',
     'desc', 'accessibility-id',
   ]],
-  ['index', ['nth-child']],
 ];
 
+/** @type {Record<string, string>} */
+const XPATH_ATTRIBUTE_NAMES = {
+  description: 'content-desc',
+  'class-name': 'class',
+  'package-name': 'package',
+};
+
+const UPPER_CASE_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const LOWER_CASE_LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Is thrown if a CSS construct cannot be expressed as UiSelector,
+ * so the whole selector must be converted to XPath instead
+ */
+class UiSelectorLimitationError extends Error {}
+
 /**
  * Convert hyphen separated word to snake case
  *
@@ -115,6 +134,32 @@ function requireEntityName (cssEntity) {
     `Supported attributes are '${ALL_ATTRS.join(', ')}'`);
 }
 
+/**
+ * Check whether the CSS attribute must be compared case-insensitively, e.g. `[text="foo" i]`
+ *
+ * @param {import('css-selector-parser').AstAttribute} cssAttr
+ * @returns {boolean}
+ */
+function isCaseInsensitive (cssAttr) {
+  return _.toLower(cssAttr.caseSensitivityModifier) === 'i';
+}
+
+/**
+ * Get an XPath condition matching the position of an element among its siblings,
+ * which is equal to `an+b` for any non-negative integer `n`
+ *
+ * @param {number} a
+ * @param {number} b
+ * @returns {string}
+ */
+function toNthChildXPathCondition (a, b) {
+  const position = 'count(preceding-sibling::*) + 1';
+  if (a === 0) {
+    return `${position} = ${b}`;
+  }
+  return `(${position} - ${b}) mod ${a} = 0 and (${position} - ${b}) div ${a} >= 0`;
+}
+
 /**
  * Get a regex that matches a whole word. For the ~= CSS attribute selector.
  *
@@ -126,6 +171,85 @@ function getWordMatcherRegex (word) {
 }
 
 
+/**
+ * Validate a CSS attribute and get its canonical name along with the value
+ *
+ * @param {import('css-selector-parser').AstAttribute} cssAttr CSS attribute object
+ * @returns {{attrName: string, attrValue: string|undefined}}
+ */
+function requireSupportedAttribute (cssAttr) {
+  // @ts-ignore Value should be present
+  const attrValue = cssAttr.value?.value;
+  if (!_.isString(attrValue) && !_.isEmpty(attrValue)) {
+    throw new Error(`'${cssAttr.name}=${attrValue}' is an invalid attribute. ` +
+      `Only 'string' and empty attribute types are supported. Found '${attrValue}'`);
+  }
+  const attrName = requireEntityName(cssAttr);
+
+  // Validate that it's a supported attribute
+  if (!STR_ATTRS.includes(attrName) && !BOOLEAN_ATTRS.includes(attrName)) {
+    throw new Error(`'${attrName}' is not supported. Supported attributes are ` +
+      `'${[...STR_ATTRS, ...BOOLEAN_ATTRS].join(', ')}'`);
+  }
+  return {attrName, attrValue};
+}
+
+/**
+ * Validate the string argument of a CSS pseudo class
+ *
+ * @param {import('css-selector-parser').AstPseudoClass} cssPseudo CSS Pseudo class
+ * @returns {string|undefined} The argument value
+ */
+function requirePseudoArgument (cssPseudo) {
+  // @ts-ignore The attribute should exist
+  const argValue = cssPseudo.argument?.value;
+  if (!_.isString(argValue) && !_.isEmpty(argValue)) {
+    throw new Error(`'${cssPseudo.name}=${argValue}'. ` +
+      `Unsupported css pseudo class value: '${argValue}'. Only 'string' type or empty is supported.`);
+  }
+  return argValue;
+}
+
+/**
+ * @param {import('css-selector-parser').AstRule} cssRule CSS rule definition
+ */
+function requireSupportedCombinator (cssRule) {
+  if (cssRule.combinator && ![' ', '>'].includes(cssRule.combinator)) {
+    throw new Error(`'${cssRule.combinator}' is not a supported combinator. ` +
+      `Only child combinator (>) and descendant combinator are supported.`);
+  }
+}
+
+/**
+ * Group items of a CSS rule by their types
+ *
+ * @param {import('css-selector-parser').AstRule} cssRule CSS rule definition
+ */
+function splitRuleItems (cssRule) {
+  /** @type {import('css-selector-parser').AstClassName[]} */
+  // @ts-ignore This should work
+  const astClassNames = cssRule.items.filter(({type}) => type === 'ClassName');
+  /** @type {import('css-selector-parser').AstTagName|undefined} */
+  // @ts-ignore This should work
+  const astTag = cssRule.items.find(({type}) => type === 'TagName');
+  /** @type {import('css-selector-parser').AstId[]} */
+  // @ts-ignore This should work
+  const astIds = cssRule.items.filter(({type}) => type === 'Id');
+  /** @type {import('css-selector-parser').AstAttribute[]} */
+  // @ts-ignore This should work
+  const attributes = cssRule.items.filter(({type}) => type === 'Attribute');
+  /** @type {import('css-selector-parser').AstPseudoClass[]} */
+  // @ts-ignore This should work
+  const pseudoClasses = cssRule.items.filter(({type}) => type === 'PseudoClass');
+  return {
+    tagName: astTag?.name,
+    classNames: astClassNames.map(({name}) => name),
+    ids: astIds.map(({name}) => name),
+    attributes,
+    pseudoClasses,
+  };
+}
+
 class CssConverter {
 
   constructor (selector, pkg) {
@@ -152,21 +276,9 @@ class CssConverter {
    * @returns {string} CSS attribute parsed as UiSelector
    */
   parseAttr (cssAttr) {
-    // @ts-ignore Value should be present
-    const attrValue = cssAttr.value?.value;
-    if (!_.isString(attrValue) && !_.isEmpty(attrValue)) {
-      throw new Error(`'${cssAttr.name}=${attrValue}' is an invalid attribute. ` +
-        `Only 'string' and empty attribute types are supported. Found '${attrValue}'`);
-    }
-    const attrName = requireEntityName(cssAttr);
+    const {attrName, attrValue} = requireSupportedAttribute(cssAttr);
     const methodName = toSnakeCase(attrName);
 
-    // Validate that it's a supported attribute
-    if (!STR_ATTRS.includes(attrName) && !BOOLEAN_ATTRS.includes(attrName)) {
-      throw new Error(`'${attrName}' is not supported. Supported attributes are ` +
-        `'${[...STR_ATTRS, ...BOOLEAN_ATTRS].join(', ')}'`);
-    }
-
     // Parse boolean, if it's a boolean attribute
     if (BOOLEAN_ATTRS.includes(attrName)) {
       return `.${methodName}(${requireBoolean(cssAttr)})`;
@@ -181,6 +293,21 @@ class CssConverter {
       return `.${methodName}Matches("")`;
     }
 
+    if (isCaseInsensitive(cssAttr)) {
+      // UiSelector regular expressions must match the whole attribute value
+      const escapedValue = _.escapeRegExp(value);
+      const pattern = {
+        '=': escapedValue,
+        '*=': `.*${escapedValue}.*`,
+        '^=': `${escapedValue}.*`,
+        '$=': `.*${escapedValue}`,
+        '~=': `.*${getWordMatcherRegex(value)}.*`,
+      }[cssAttr.operator ?? ''];
+      if (pattern) {
+        return `.${methodName}Matches("(?is)${pattern}")`;
+      }
+    }
+
     switch (cssAttr.operator) {
       case '=':
         return `.${methodName}("${value}")`;
@@ -212,11 +339,22 @@ class CssConverter {
    * @returns {string|null|undefined} Pseudo selector parsed as UiSelector
    */
   parsePseudo (cssPseudo) {
-    // @ts-ignore The attribute should exist
-    const argValue = cssPseudo.argument?.value;
-    if (!_.isString(argValue) && !_.isEmpty(argValue)) {
-      throw new Error(`'${cssPseudo.name}=${argValue}'. ` +
-        `Unsupported css pseudo class value: '${argValue}'. Only 'string' type or empty is supported.`);
+    const argValue = requirePseudoArgument(cssPseudo);
+
+    switch (_.toLower(cssPseudo.name)) {
+      case 'first-child':
+        return '.index(0)';
+      case 'nth-child': {
+        const {a, b} = /** @type {import('css-selector-parser').AstFormula} */ (cssPseudo.argument);
+        if (a === 0 && b >= 1) {
+          return `.index(${b - 1})`;
+        }
+        throw new UiSelectorLimitationError(`':nth-child(${a}n+${b})' cannot be expressed as UiSelector`);
+      }
+      case 'last-child':
+      case 'only-child':
+      case 'not':
+        throw new UiSelectorLimitationError(`':${cssPseudo.name}' cannot be expressed as UiSelector`);
     }
 
     const pseudoName = requireEntityName(cssPseudo);
@@ -235,21 +373,11 @@ class CssConverter {
    * @param {import('css-selector-parser').AstRule} cssRule CSS rule definition
    */
   parseCssRule (cssRule) {
-    if (cssRule.combinator && ![' ', '>'].includes(cssRule.combinator)) {
-      throw new Error(`'${cssRule.combinator}' is not a supported combinator. ` +
-        `Only child combinator (>) and descendant combinator are supported.`);
-    }
+    requireSupportedCombinator(cssRule);
 
     /** @type {string[]} */
     const uiAutomatorSelector = ['new UiSelector()'];
-    /** @type {import('css-selector-parser').AstClassName[]} */
-    // @ts-ignore This should work
-    const astClassNames = cssRule.items.filter(({type}) => type === 'ClassName');
-    const classNames = astClassNames.map(({name}) => name);
-    /** @type {import('css-selector-parser').AstTagName|undefined} */
-    // @ts-ignore This should work
-    const astTag = cssRule.items.find(({type}) => type === 'TagName');
-    const tagName = astTag?.name;
+    const {tagName, classNames, ids, attributes, pseudoClasses} = splitRuleItems(cssRule);
     if (tagName && tagName !== '*') {
       const androidClass = [tagName];
       if (classNames.length) {
@@ -263,22 +391,12 @@ class CssConverter {
     } else if (classNames.length) {
       uiAutomatorSelector.push(`.classNameMatches("${classNames.join('\\.')}")`);
     }
-    /** @type {import('css-selector-parser').AstId[]} */
-    // @ts-ignore This should work
-    const astIds = cssRule.items.filter(({type}) => type === 'Id');
-    const ids = astIds.map(({name}) => name);
     if (ids.length) {
       uiAutomatorSelector.push(`.resourceId("${this.formatIdLocator(ids[0])}")`);
     }
-    /** @type {import('css-selector-parser').AstAttribute[]} */
-    // @ts-ignore This should work
-    const attributes = cssRule.items.filter(({type}) => type === 'Attribute');
     for (const attr of attributes) {
       uiAutomatorSelector.push(this.parseAttr(attr));
     }
-    /** @type {import('css-selector-parser').AstPseudoClass[]} */
-    // @ts-ignore This should work
-    const pseudoClasses = cssRule.items.filter(({type}) => type === 'PseudoClass');
     for (const pseudo of pseudoClasses) {
       const sel = this.parsePseudo(pseudo);
       if (sel) {
@@ -304,21 +422,223 @@ class CssConverter {
     throw new Error('No rules could be parsed out of the current selector');
   }
 
+  /**
+   * Convert a CSS attribute into an XPath condition
+   *
+   * @param {import('css-selector-parser').AstAttribute} cssAttr CSS attribute object
+   * @returns {string} XPath condition without surrounding brackets
+   */
+  attrToXPath (cssAttr) {
+    const {attrName, attrValue} = requireSupportedAttribute(cssAttr);
+    if (BOOLEAN_ATTRS.includes(attrName)) {
+      return `@${attrName}="${requireBoolean(cssAttr)}"`;
+    }
+
+    let value = attrValue || '';
+    if (attrName === RESOURCE_ID) {
+      value = this.formatIdLocator(value);
+    }
+    const xpathAttr = `@${XPATH_ATTRIBUTE_NAMES[attrName] ?? attrName}`;
+    if (value === '') {
+      return `${xpathAttr}=""`;
+    }
+
+    const [subject, comparedValue] = isCaseInsensitive(cssAttr)
+      ? [`translate(${xpathAttr}, "${UPPER_CASE_LETTERS}", "${LOWER_CASE_LETTERS}")`, _.toLower(value)]
+      : [xpathAttr, value];
+    const literal = toXPathLiteral(comparedValue);
+    switch (cssAttr.operator) {
+      case '=':
+        return `${subject}=${literal}`;
+      case '*=':
+        return `contains(${subject}, ${literal})`;
+      case '^=':
+        return `starts-with(${subject}, ${literal})`;
+      case '$=':
+        return `substring(${subject}, string-length(${subject}) - string-length(${literal}) + 1)=${literal}`;
+      case '~=':
+        return `contains(concat(" ", normalize-space(${subject}), " "), ${toXPathLiteral(` ${comparedValue} `)})`;
+      default:
+        throw new Error(`Unsupported CSS attribute operator '${cssAttr.operator}'. ` +
+          ` '=', '*=', '^=', '$=' and '~=' are supported.`);
+    }
+  }
+
+  /**
+   * Convert a CSS pseudo class into an XPath condition
+   *
+   * @param {import('css-selector-parser').AstPseudoClass} cssPseudo CSS Pseudo class
+   * @returns {string} XPath condition without surrounding brackets
+   */
+  pseudoToXPath (cssPseudo) {
+    const argValue = requirePseudoArgument(cssPseudo);
+
+    switch (_.toLower(cssPseudo.name)) {
+      case 'first-child':
+        return 'not(preceding-sibling::*)';
+      case 'last-child':
+        return 'not(following-sibling::*)';
+      case 'only-child':
+        return 'not(preceding-sibling::*) and not(following-sibling::*)';
+      case 'nth-child': {
+        const {a, b} = /** @type {import('css-selector-parser').AstFormula} */ (cssPseudo.argument);
+        return toNthChildXPathCondition(a, b);
+      }
+      case 'not': {
+        const {rules} = /** @type {import('css-selector-parser').AstSelector} */ (cssPseudo.argument);
+        return rules.map((rule) => {
+          if (rule.nestedRule) {
+            throw new Error(`Only simple selectors without combinators are supported inside of ':not()'`);
+          }
+          const conditions = this.ruleItemsToXPath(rule);
+          return `not(${_.isEmpty(conditions) ? 'true()' : conditions.join(' and ')})`;
+        }).join(' and ');
+      }
+    }
+
+    const pseudoName = requireEntityName(cssPseudo);
+
+    if (BOOLEAN_ATTRS.includes(pseudoName)) {
+      return `@${pseudoName}="${requireBoolean(cssPseudo)}"`;
+    }
+    if (pseudoName === 'index') {
+      if (!_.isString(argValue)) {
+        throw new Error(`':${pseudoName}' pseudo class requires an argument`);
+      }
+      return `@index=${toXPathLiteral(argValue)}`;
+    }
+    throw new Error(`'${pseudoName}' cannot be expressed as XPath`);
+  }
+
+  /**
+   * Convert items of a CSS rule (except of nested rules) into XPath conditions
+   *
+   * @param {import('css-selector-parser').AstRule} cssRule CSS rule definition
+   * @returns {string[]} XPath conditions without surrounding brackets
+   */
+  ruleItemsToXPath (cssRule) {
+    /** @type {string[]} */
+    const conditions = [];
+    const {tagName, classNames, ids, attributes, pseudoClasses} = splitRuleItems(cssRule);
+    if (tagName && tagName !== '*') {
+      conditions.push(`@class=${toXPathLiteral([tagName, ...classNames].join('.'))}`);
+    } else if (classNames.length) {
+      conditions.push(`@class=${toXPathLiteral(classNames.join('.'))}`);
+    }
+    if (ids.length) {
+      conditions.push(`@resource-id=${toXPathLiteral(this.formatIdLocator(ids[0]))}`);
+    }
+    for (const attr of attributes) {
+      conditions.push(this.attrToXPath(attr));
+    }
+    for (const pseudo of pseudoClasses) {
+      conditions.push(this.pseudoToXPath(pseudo));
+    }
+    return conditions;
+  }
+
+  /**
+   * Convert a CSS rule to XPath location steps
+   *
+   * @param {import('css-selector-parser').AstRule} cssRule CSS rule definition
+   * @returns {string}
+   */
+  ruleToXPath (cssRule) {
+    requireSupportedCombinator(cssRule);
+
+    const step = `*${this.ruleItemsToXPath(cssRule).map((condition) => `[${condition}]`).join('')}`;
+    if (!cssRule.nestedRule) {
+      return step;
+    }
+    const axis = cssRule.nestedRule.combinator === '>' ? '/' : '//';
+    return `${step}${axis}${this.ruleToXPath(cssRule.nestedRule)}`;
+  }
+
+  /**
+   * Convert CSS object to XPath. Comma-separated selectors are combined into a union
+   *
+   * @param {import('css-selector-parser').AstSelector} css CSS object
+   * @returns {string} The CSS object converted to XPath
+   */
+  toXPath (css) {
+    if (_.isEmpty(css.rules)) {
+      throw new Error('No rules could be parsed out of the current selector');
+    }
+    return css.rules.map((rule) => `//${this.ruleToXPath(rule)}`).join(' | ');
+  }
+
+  /**
+   * @returns {import('css-selector-parser').AstSelector} The parsed CSS selector
+   */
+  parse () {
+    try {
+      return parseCssSelector(this.selector);
+    } catch (e) {
+      log.debug(e.stack);
+      // the position of the failure helps to spot the problem in long selectors
+      throw Object.assign(
+        new errors.InvalidSelectorError(`Invalid CSS selector '${this.selector}'. Reason: '${e.message}'`),
+        {position: _.isInteger(e.position) ? e.position : null}
+      );
+    }
+  }
+
   /**
    * Convert a CSS selector to a UiAutomator2 selector
    *
    * @returns {string} The CSS selector converted to a UiSelector
    */
   toUiAutomatorSelector () {
-    let cssObj;
+    const cssObj = this.parse();
+    try {
+      return this.parseCssObject(cssObj);
+    } catch (e) {
+      log.debug(e.stack);
+      throw new errors.InvalidSelectorError(`Unsupported CSS selector '${this.selector}'. Reason: '${e.message}'`);
+    }
+  }
+
+  /**
+   * Convert a CSS selector to an XPath 1.0 expression
+   *
+   * @returns {string} The CSS selector converted to XPath
+   */
+  toXPathSelector () {
+    const cssObj = this.parse();
     try {
-      cssObj = parseCssSelector(this.selector);
+      return this.toXPath(cssObj);
     } catch (e) {
       log.debug(e.stack);
-      throw new errors.InvalidSelectorError(`Invalid CSS selector '${this.selector}'. Reason: '${e.message}'`);
+      throw new errors.InvalidSelectorError(`Unsupported CSS selector '${this.selector}'. Reason: '${e.message}'`);
     }
+  }
+
+  /**
+   * Convert a CSS selector to a locator supported by UiAutomator2 server.
+   * UiSelector is preferred, although XPath is used instead if the selector
+   * contains constructs, which cannot be expressed as UiSelector
+   *
+   * @returns {{strategy: string, selector: string}}
+   */
+  toLocator () {
+    const cssObj = this.parse();
     try {
-      return this.parseCssObject(cssObj);
+      return {
+        strategy: '-android uiautomator',
+        selector: this.parseCssObject(cssObj),
+      };
+    } catch (e) {
+      if (!(e instanceof UiSelectorLimitationError)) {
+        log.debug(e.stack);
+        throw new errors.InvalidSelectorError(`Unsupported CSS selector '${this.selector}'. Reason: '${e.message}'`);
+      }
+      log.debug(`${e.message}. Converting '${this.selector}' to XPath instead`);
+    }
+    try {
+      return {
+        strategy: 'xpath',
+        selector: this.toXPath(cssObj),
+      };
     } catch (e) {
       log.debug(e.stack);
       throw new errors.InvalidSelectorError(`Unsupported CSS selector '${this.selector}'. Reason: '${e.message}'`);
@@ -0,0 +1,249 @@
+import _ from 'lodash';
+import os from 'os';
+import path from 'path';
+import { fs, util, timing } from 'appium/support';
+import B from 'bluebird';
+
+const LEASE_FILE_PREFIX = 'uia2_device_lease_';
+const LEASE_POLL_INTERVAL_MS = 1000;
+const LEASE_HEARTBEAT_INTERVAL_MS = 10000;
+// Leases, whose heartbeat has not been updated for longer, are considered stale
+const LEASE_EXPIRATION_MS = 60000;
+// The guard makes lease files checks and modifications atomic
+// for parallel driver sessions
+const DEVICE_LEASE_GUARD = util.getLockFileGuard(
+  path.resolve(os.tmpdir(), 'uia2_device_lease_guard'),
+  {timeout: 25, tryRecovery: true}
+);
+
+/**
+ * Exclusive lease of a device for a single driver session.
+ * The lease is a file in the temporary folder, which is shared between
+ * all driver processes running on the same host. The lease is periodically
+ * renewed while the session owning it is active. Leases whose owner process
+ * is not running anymore or which have not been renewed for a while
+ * are considered stale and get overridden.
+ */
+export class DeviceLease {
+  /** @type {string} */
+  udid;
+
+  /** @type {string} */
+  sessionId;
+
+  /** @type {import('@appium/types').AppiumLogger} */
+  log;
+
+  /**
+   * The lease stops being renewed once this returns false
+   * @type {() => boolean}
+   */
+  isSessionActive;
+
+  /** @type {NodeJS.Timeout|undefined} */
+  _heartbeatTimer;
+
+  /**
+   * @param {string} udid The identifier of the device to lease
+   * @param {string} sessionId The identifier of the session that leases the device
+   * @param {import('@appium/types').AppiumLogger} log
+   * @param {() => boolean} [isSessionActive] Whether the session that leases the device is still active
+   */
+  constructor (udid, sessionId, log, isSessionActive = _.stubTrue) {
+    this.udid = udid;
+    this.sessionId = sessionId;
+    this.log = log;
+    this.isSessionActive = isSessionActive;
+  }
+
+  /**
+   * @returns {string} The full path to the lease file of the device
+   */
+  get leasePath () {
+    return path.resolve(os.tmpdir(), `${LEASE_FILE_PREFIX}${this.udid.replace(/[^\w.-]/g, '_')}.json`);
+  }
+
+  /**
+   * Acquires the device lease and starts renewing it periodically
+   *
+   * @param {number} timeoutMs The maximum count of milliseconds to wait until the device
+   * is released by another session. The device is only checked once if zero,
+   * so the acquisition fails immediately if the device is busy.
+   * @returns {Promise<void>}
+   * @throws {Error} If the device is still leased by another session after the timeout
+   */
+  async acquire (timeoutMs = 0) {
+    const timer = new timing.Timer().start();
+    /** @type {DeviceLeaseInfo|null} */
+    let holder;
+    while ((holder = await DEVICE_LEASE_GUARD(async () => await this._tryAcquire()))) {
+      if (timer.getDuration().asMilliSeconds >= timeoutMs) {
+        throw this.log.errorWithException(
+          `The device '${this.udid}' is already in use by the session '${holder.sessionId}' ` +
+          `(process ${holder.pid}) since ${holder.acquiredAt}. ` +
+          `Make sure the previous session on this device is deleted or select another device. ` +
+          `You could also increase the value of 'deviceLeaseTimeout' capability to wait until the device is released`
+        );
+      }
+      this.log.debug(`The device '${this.udid}' is leased by the session '${holder.sessionId}'. Waiting...`);
+      await B.delay(LEASE_POLL_INTERVAL_MS);
+    }
+    this.log.info(`Acquired the lease of the device '${this.udid}' for the session '${this.sessionId}'`);
+    this._startHeartbeat();
+  }
+
+  /**
+   * Releases the device lease if it is still owned by the current session
+   *
+   * @returns {Promise<void>}
+   */
+  async release () {
+    this._stopHeartbeat();
+    await DEVICE_LEASE_GUARD(async () => {
+      const holder = await this._readLease();
+      if (holder?.sessionId !== this.sessionId) {
+        return;
+      }
+      await fs.rimraf(this.leasePath);
+      this.log.info(`Released the lease of the device '${this.udid}'`);
+    });
+  }
+
+  /**
+   * Writes the lease file unless the device is leased by another session.
+   * Must only be called under the lease guard.
+   *
+   * @returns {Promise<DeviceLeaseInfo|null>} The info about the other lease holder or null
+   * if the lease has been successfully acquired
+   */
+  async _tryAcquire () {
+    const holder = await this._readLease();
+    if (holder && holder.sessionId !== this.sessionId) {
+      const staleReason = toStaleReason(holder);
+      if (!staleReason) {
+        return holder;
+      }
+      this.log.warn(
+        `The device '${this.udid}' lease of the session '${holder.sessionId}' is stale ` +
+        `because ${staleReason}. Overriding it`
+      );
+    }
+    const now = new Date().toISOString();
+    /** @type {DeviceLeaseInfo} */
+    const info = {
+      sessionId: this.sessionId,
+      pid: process.pid,
+      acquiredAt: now,
+      heartbeatAt: now,
+    };
+    await fs.writeFile(this.leasePath, JSON.stringify(info), 'utf8');
+    return null;
+  }
+
+  /**
+   * Updates the heartbeat timestamp of the lease file if the lease is still owned by
+   * the current session. The heartbeat is stopped if the session is not active anymore
+   * or the lease has been overridden, so the lease expires eventually.
+   *
+   * @returns {Promise<void>}
+   */
+  async _renew () {
+    if (!this.isSessionActive()) {
+      this.log.info(`The session '${this.sessionId}' is not active anymore. Stopping the device lease renewal`);
+      this._stopHeartbeat();
+      return;
+    }
+    await DEVICE_LEASE_GUARD(async () => {
+      const holder = await this._readLease();
+      if (holder?.sessionId !== this.sessionId) {
+        this.log.warn(`The lease of the device '${this.udid}' is not owned by the session '${this.sessionId}' anymore`);
+        this._stopHeartbeat();
+        return;
+      }
+      /** @type {DeviceLeaseInfo} */
+      const info = {...holder, heartbeatAt: new Date().toISOString()};
+      await fs.writeFile(this.leasePath, JSON.stringify(info), 'utf8');
+    });
+  }
+
+  _startHeartbeat () {
+    this._stopHeartbeat();
+    this._heartbeatTimer = setInterval(async () => {
+      try {
+        await this._renew();
+      } catch (e) {
+        this.log.warn(`Cannot renew the lease of the device '${this.udid}': ${e.message}`);
+      }
+    }, LEASE_HEARTBEAT_INTERVAL_MS);
+    // the heartbeat must not prevent the process from exiting
+    this._heartbeatTimer.unref();
+  }
+
+  _stopHeartbeat () {
+    if (this._heartbeatTimer) {
+      clearInterval(this._heartbeatTimer);
+      this._heartbeatTimer = undefined;
+    }
+  }
+
+  /**
+   * @returns {Promise<DeviceLeaseInfo|null>} The content of the lease file
+   * or null if it does not exist or cannot be parsed
+   */
+  async _readLease () {
+    if (!await fs.exists(this.leasePath)) {
+      return null;
+    }
+    try {
+      const info = JSON.parse(await fs.readFile(this.leasePath, 'utf8'));
+      return _.isString(info?.sessionId) && _.isInteger(info?.pid) ? info : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// #region Internal Helpers
+
+/**
+ * @param {DeviceLeaseInfo} holder
+ * @returns {string|null} The reason why the lease is stale or null if it is still valid
+ */
+function toStaleReason (holder) {
+  if (!isProcessAlive(holder.pid)) {
+    return `the process ${holder.pid} is not running anymore`;
+  }
+  // leases written by older driver versions have no heartbeat
+  const heartbeatAt = holder.heartbeatAt ?? holder.acquiredAt;
+  const heartbeatAgeMs = Date.now() - Date.parse(heartbeatAt);
+  if (!_.isFinite(heartbeatAgeMs) || heartbeatAgeMs > LEASE_EXPIRATION_MS) {
+    return `it has not been renewed since ${heartbeatAt}`;
+  }
+  return null;
+}
+
+/**
+ * @param {number} pid
+ * @returns {boolean}
+ */
+function isProcessAlive (pid) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // The process exists, but belongs to another user
+    return e.code === 'EPERM';
+  }
+}
+
+// #endregion
+
+export default DeviceLease;
+
+/**
+ * @typedef {Object} DeviceLeaseInfo
+ * @property {string} sessionId
+ * @property {number} pid
+ * @property {string} acquiredAt ISO-8601 timestamp of the lease acquisition
+ * @property {string} [heartbeatAt] ISO-8601 timestamp of the most recent lease renewal
+ */
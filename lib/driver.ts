@@ -3,6 +3,7 @@ import type {
   DefaultCreateSessionResult,
   DriverData,
   ExternalDriver,
+  HTTPMethod,
   InitialOpts,
   Orientation,
   RouteMatcher,
@@ -12,7 +13,7 @@ import type {
 import {DEFAULT_ADB_PORT} from 'appium-adb';
 import {AndroidDriver, utils} from 'appium-android-driver';
 import {SETTINGS_HELPER_ID} from 'io.appium.settings';
-import {BaseDriver, DeviceSettings} from 'appium/driver';
+import {BaseDriver, DeviceSettings, errors} from 'appium/driver';
 import {fs, mjpeg, util} from 'appium/support';
 import {retryInterval} from 'asyncbox';
 import B from 'bluebird';
@@ -24,7 +25,13 @@ import type {ExecError} from 'teen_process';
 import UIAUTOMATOR2_CONSTRAINTS, {type Uiautomator2Constraints} from './constraints';
 import {APKS_EXTENSION, APK_EXTENSION} from './extensions';
 import {newMethodMap} from './method-map';
-import { signApp } from './helpers';
+import {
+  parsePortRange,
+  parseServerUrl,
+  signApp,
+  validateInstrumentationArgs,
+  validateSettings,
+} from './helpers';
 import type { EmptyObject } from 'type-fest';
 import type {
   Uiautomator2Settings,
@@ -34,9 +41,24 @@ import type {
   Uiautomator2SessionCaps,
   Uiautomator2SessionInfo,
   Uiautomator2StartSessionOpts,
+  Uiautomator2TeardownHook,
+  Uiautomator2TeardownReport,
   W3CUiautomator2DriverCaps,
 } from './types';
+import type {SessionSetupPlan} from './commands/types';
 import {SERVER_PACKAGE_ID, SERVER_TEST_PACKAGE_ID, UiAutomator2Server} from './uiautomator2';
+import type {UiAutomator2ServerOptions} from './uiautomator2';
+import {StartupMetrics} from './startup-metrics';
+import {DeviceLease} from './device-lease';
+import {SessionTeardown} from './session-teardown';
+import {
+  SNAPSHOT_ELEMENT_ID_PREFIX,
+  dropLookupSnapshot,
+  isSnapshotElementCommand,
+  isSnapshotPreservingCommand,
+  type LookupSnapshot,
+  type SnapshotElement,
+} from './lookup-snapshot';
 import {
   mobileGetActionHistory,
   mobileScheduleAction,
@@ -84,14 +106,31 @@ import {
   click,
   clear,
   mobileReplaceElementValue,
+  mobileGetElementsProperties,
 } from './commands/element';
 import {
   executeMobile,
   mobileCommandsMapping,
 } from './commands/execute';
 import {
+  STRING_RESOURCE_STRATEGY,
   doFindElementOrEls,
+  mobileTranslateSelector,
+  relocateStaleElement,
+  type ElementLocator,
 } from './commands/find';
+import {
+  mobileAccessibilityAudit,
+} from './commands/accessibility';
+import {
+  mobileCaptureSourceSnapshot,
+  mobileDiffSourceSnapshots,
+  mobileGetSource,
+  type SourceSnapshotRecord,
+} from './commands/source';
+import {
+  mobileWaitFor,
+} from './commands/wait';
 import {
   mobileClickGesture,
   mobileDoubleClickGesture,
@@ -101,6 +140,7 @@ import {
   mobilePinchCloseGesture,
   mobilePinchOpenGesture,
   mobileScroll,
+  mobileScrollToElement,
   mobileScrollBackTo,
   mobileScrollGesture,
   mobileSwipeGesture,
@@ -120,7 +160,30 @@ import {
   openNotifications,
   suspendChromedriverProxy,
   mobileGetDeviceInfo,
+  mobileGetSessionStartupMetrics,
+  mobileGetProxyStats,
+  mobileWaitForStableUi,
 } from './commands/misc';
+import {
+  supportedLogTypes,
+  mobileGetUiautomator2ServerLogs,
+} from './commands/log';
+import {
+  mobileGetSessionSetupPlan,
+} from './commands/setup-plan';
+import {
+  mobileGetUiautomator2ServerHealth,
+  notifyBiDiServerHealthChange,
+} from './commands/health';
+import {
+  mobilePopSettings,
+  mobilePushSettings,
+} from './commands/settings';
+import {
+  notifyBiDiSessionTeardown,
+  registerTeardownHook,
+  unregisterTeardownHook,
+} from './commands/teardown';
 import {
   setUrl,
   mobileDeepLink,
@@ -142,11 +205,11 @@ import {
   mobileViewPortRect,
 } from './commands/viewport';
 
-// The range of ports we can use on the system for communicating to the
+// The default range of ports we can use on the system for communicating to the
 // UiAutomator2 HTTP server on the device
-const DEVICE_PORT_RANGE = [8200, 8299];
+const DEVICE_PORT_RANGE: [number, number] = [8200, 8299];
 
-// The guard is needed to avoid dynamic system port allocation conflicts for
+// The guard is needed to avoid dynamic system and MJPEG server port allocation conflicts for
 // parallel driver sessions
 const DEVICE_PORT_ALLOCATION_GUARD = util.getLockFileGuard(
   path.resolve(os.tmpdir(), 'uia2_device_port_guard'),
@@ -257,6 +320,14 @@ const CHROME_NO_PROXY: RouteMatcher[] = [
   ['POST', new RegExp('^/session/[^/]+/se/log$')],
 ];
 
+// Elements found in lookup snapshots are unknown to the server,
+// so all requests to them are handled by the driver
+const SNAPSHOT_ELEMENT_ROUTE = new RegExp(`/element/${SNAPSHOT_ELEMENT_ID_PREFIX}[^/]+`);
+
+// Sessions created with 'sessionSetupPlanOnly' capability have no server running,
+// so they only support these commands
+const SETUP_PLAN_SESSION_COMMANDS = new Set(['createSession', 'deleteSession', 'getSession', 'getSessions', 'getStatus']);
+
 const MEMOIZED_FUNCTIONS = ['getStatusBarHeight', 'getDevicePixelRatio'] as const;
 
 class AndroidUiautomator2Driver
@@ -274,10 +345,55 @@ class AndroidUiautomator2Driver
 
   systemPort: number | undefined;
 
+  mjpegServerPort: number | undefined;
+
   _originalIme: string | null;
 
   mjpegStream?: mjpeg.MJpegStream;
 
+  startupMetrics: StartupMetrics;
+
+  deviceLease?: DeviceLease;
+
+  teardownHooks: Map<string, Uiautomator2TeardownHook>;
+
+  _settingsSnapshots: Partial<Uiautomator2Settings>[];
+
+  /**
+   * Settings explicitly applied in scope of the current session, either via `initialSettings`
+   * capability or via the settings API. They are replayed to each new server session
+   */
+  _appliedSettings: Partial<Uiautomator2Settings>;
+
+  /**
+   * The page source used for local element lookups if `enableSnapshotLookup` setting is enabled.
+   * It is dropped after each command, which might change the application state
+   */
+  _lookupSnapshot?: LookupSnapshot;
+
+  _snapshotElements: Map<string, SnapshotElement>;
+
+  /**
+   * String resources of the application under test per package name and language,
+   * which are used to resolve `-android string resource` locators
+   */
+  _appStringsCache: Map<string, StringRecord>;
+
+  /**
+   * Page sources captured by `mobile: captureSourceSnapshot` in the order of their capture
+   */
+  _sourceSnapshots: Map<string, SourceSnapshotRecord>;
+
+  /**
+   * Locators of found elements, which are recorded if the `enableStaleElementRecovery` setting is enabled
+   */
+  _elementLocators: Map<string, ElementLocator>;
+
+  /**
+   * The report of the most recent session teardown performed by this driver instance
+   */
+  lastTeardownReport?: Uiautomator2TeardownReport;
+
   override caps: Uiautomator2DriverCaps;
 
   override opts: Uiautomator2DriverOpts;
@@ -298,11 +414,21 @@ class AndroidUiautomator2Driver
       'accessibility id',
       'css selector',
       '-android uiautomator',
+      STRING_RESOURCE_STRATEGY,
     ];
     this.desiredCapConstraints = _.cloneDeep(UIAUTOMATOR2_CONSTRAINTS);
     this.jwpProxyActive = false;
     this.jwpProxyAvoid = NO_PROXY;
+    this.supportedLogTypes = {...this.supportedLogTypes, ...supportedLogTypes};
     this._originalIme = null;
+    this.startupMetrics = new StartupMetrics();
+    this.teardownHooks = new Map();
+    this._settingsSnapshots = [];
+    this._appliedSettings = {};
+    this._snapshotElements = new Map();
+    this._appStringsCache = new Map();
+    this._sourceSnapshots = new Map();
+    this._elementLocators = new Map();
 
     this.settings = new DeviceSettings(
       {ignoreUnimportantViews: false, allowInvisibleElements: false},
@@ -329,6 +455,7 @@ class AndroidUiautomator2Driver
     w3cCaps3?: W3CUiautomator2DriverCaps,
     driverData?: DriverData[]
   ): Promise<any> {
+    this.startupMetrics = new StartupMetrics();
     try {
       // TODO handle otherSessionData for multiple sessions
       const [sessionId, caps] = (await BaseDriver.prototype.createSession.call(
@@ -362,13 +489,21 @@ class AndroidUiautomator2Driver
 
       this.opts.adbPort = this.opts.adbPort || DEFAULT_ADB_PORT;
       // get device udid for this session
-      const {udid, emPort} = await this.getDeviceInfoFromCaps();
+      const {udid, emPort} = await this.startupMetrics.measure(
+        'deviceSelection', async () => await this.getDeviceInfoFromCaps()
+      );
       this.opts.udid = udid;
       // @ts-expect-error do not put random stuff on opts
       this.opts.emPort = emPort;
+      // make sure no other session is running on the same device
+      const deviceLease = new DeviceLease(udid, sessionId, this.log, () => this.sessionId === sessionId);
+      await this.startupMetrics.measure(
+        'deviceLease', async () => await deviceLease.acquire(this.opts.deviceLeaseTimeout)
+      );
+      this.deviceLease = deviceLease;
       // now that we know our java version and device info, we can create our
       // ADB instance
-      this.adb = await this.createADB();
+      this.adb = await this.startupMetrics.measure('adbInit', async () => await this.createADB());
 
       if (this.isChromeSession) {
         this.log.info(`We're going to run a Chrome-based session`);
@@ -386,13 +521,23 @@ class AndroidUiautomator2Driver
         this.log.info(`Chrome-type package and activity are ${pkg} and ${activity}`);
       }
 
+      if (this.opts.sessionSetupPlanOnly) {
+        const sessionSetupPlan = await this.startupMetrics.measure(
+          'setupPlan', async () => await this.planSessionSetup()
+        );
+        this.startupMetrics.finish();
+        return [sessionId, {...startSessionOpts, sessionSetupPlan, startupMetrics: this.startupMetrics.toJSON()}];
+      }
+
       if (this.opts.app) {
-        // find and copy, or download and unzip an app url or path
-        this.opts.app = await this.helpers.configureApp(this.opts.app, [
-          APK_EXTENSION,
-          APKS_EXTENSION,
-        ]);
-        await this.checkAppPresent();
+        await this.startupMetrics.measure('appConfiguration', async () => {
+          // find and copy, or download and unzip an app url or path
+          this.opts.app = await this.helpers.configureApp(this.opts.app as string, [
+            APK_EXTENSION,
+            APKS_EXTENSION,
+          ]);
+          await this.checkAppPresent();
+        });
       } else if (this.opts.appPackage) {
         // the app isn't an actual app file but rather something we want to
         // assume is on the device and just launch via the appPackage
@@ -409,9 +554,10 @@ class AndroidUiautomator2Driver
       if (this.opts.mjpegScreenshotUrl) {
         this.log.info(`Starting MJPEG stream reading URL: '${this.opts.mjpegScreenshotUrl}'`);
         this.mjpegStream = new mjpeg.MJpegStream(this.opts.mjpegScreenshotUrl);
-        await this.mjpegStream.start();
+        await this.startupMetrics.measure('mjpegStream', async () => await this.mjpegStream?.start());
       }
-      return [sessionId, result];
+      this.startupMetrics.finish();
+      return [sessionId, {...result, startupMetrics: this.startupMetrics.toJSON()}];
     } catch (e) {
       await this.deleteSession();
       throw e;
@@ -477,14 +623,15 @@ class AndroidUiautomator2Driver
       return await forwardPort(this.systemPort);
     }
 
+    const [startPort, endPort] = this.getPortRange('systemPortRange') ?? DEVICE_PORT_RANGE;
     await DEVICE_PORT_ALLOCATION_GUARD(async () => {
-      const [startPort, endPort] = DEVICE_PORT_RANGE;
       try {
         this.systemPort = await findAPortNotInUse(startPort, endPort);
       } catch {
         throw this.log.errorWithException(
-          `Cannot find any free port in range ${startPort}..${endPort}}. ` +
-            `Please set the available port number by providing the systemPort capability or ` +
+          `Cannot find any free port in range ${startPort}..${endPort}. ` +
+            `Please set the available port number by providing the systemPort capability, ` +
+            `customize the range using the systemPortRange capability or ` +
             `double check the processes that are locking ports within this range and terminate ` +
             `these which are not needed anymore`
         );
@@ -510,18 +657,67 @@ class AndroidUiautomator2Driver
   }
 
   async allocateMjpegServerPort() {
-    if (this.opts.mjpegServerPort) {
+    const forwardPort = async (localPort: number) => {
       this.log.debug(
         `MJPEG broadcasting requested, forwarding MJPEG server port ${MJPEG_SERVER_DEVICE_PORT} ` +
-          `to local port ${this.opts.mjpegServerPort}`
+          `to local port ${localPort}`
       );
-      await this.adb!.forwardPort(this.opts.mjpegServerPort, MJPEG_SERVER_DEVICE_PORT);
+      await this.adb!.forwardPort(localPort, MJPEG_SERVER_DEVICE_PORT);
+    };
+
+    if (this.opts.mjpegServerPort) {
+      this.mjpegServerPort = this.opts.mjpegServerPort;
+      return await forwardPort(this.mjpegServerPort);
+    }
+
+    const portRange = this.getPortRange('mjpegServerPortRange');
+    if (!portRange) {
+      return;
     }
+    const [startPort, endPort] = portRange;
+    await DEVICE_PORT_ALLOCATION_GUARD(async () => {
+      try {
+        this.mjpegServerPort = await findAPortNotInUse(startPort, endPort);
+      } catch {
+        throw this.log.errorWithException(
+          `Cannot find any free MJPEG server port in range ${startPort}..${endPort}. ` +
+            `Please set the available port number by providing the mjpegServerPort capability or ` +
+            `double check the processes that are locking ports within this range and terminate ` +
+            `these which are not needed anymore`
+        );
+      }
+      await forwardPort(this.mjpegServerPort);
+    });
   }
 
   async releaseMjpegServerPort() {
+    if (!this.mjpegServerPort || !this.adb) {
+      return;
+    }
+
     if (this.opts.mjpegServerPort) {
-      await this.adb!.removePortForward(this.opts.mjpegServerPort);
+      await this.adb.removePortForward(this.mjpegServerPort);
+    } else {
+      await DEVICE_PORT_ALLOCATION_GUARD(
+        async () => await this.adb!.removePortForward(this.mjpegServerPort!)
+      );
+    }
+  }
+
+  /**
+   * Retrieves the range of local ports provided by the given capability
+   *
+   * @param capName The name of the port range capability
+   * @returns The validated `[start, end]` range or `undefined` if the capability is not set
+   */
+  getPortRange(capName: 'systemPortRange' | 'mjpegServerPortRange'): [number, number] | undefined {
+    if (_.isNil(this.opts[capName])) {
+      return;
+    }
+    try {
+      return parsePortRange(this.opts[capName], capName);
+    } catch (e) {
+      throw this.log.errorWithException(e.message);
     }
   }
 
@@ -534,10 +730,11 @@ class AndroidUiautomator2Driver
       );
     }
 
+    const metrics = this.startupMetrics.scope('preExecSetup');
     const preflightPromises: Promise<any>[] = [];
     if (apiLevel >= 28) {
       // Android P
-      preflightPromises.push((async () => {
+      preflightPromises.push(metrics.measure('hiddenApiPolicy', async () => {
         this.log.info('Relaxing hidden api policy');
         try {
           await this.adb.setHiddenApiPolicy('1', !!this.opts.ignoreHiddenApiPolicyError);
@@ -551,28 +748,28 @@ class AndroidUiautomator2Driver
               `the automation server. Original error: ${err.message}`
           );
         }
-      })());
+      }));
     }
     if (util.hasValue(this.opts.gpsEnabled)) {
-      preflightPromises.push((async () => {
+      preflightPromises.push(metrics.measure('gpsProvider', async () => {
         this.log.info(
           `Trying to ${this.opts.gpsEnabled ? 'enable' : 'disable'} gps location provider`
         );
         await this.adb.toggleGPSLocationProvider(Boolean(this.opts.gpsEnabled));
-      })());
+      }));
     }
     if (this.opts.hideKeyboard) {
-      preflightPromises.push((async () => {
+      preflightPromises.push(metrics.measure('defaultIme', async () => {
         this._originalIme = await this.adb.defaultIME();
-      })());
+      }));
     }
     let appInfo;
-    preflightPromises.push((async () => {
+    preflightPromises.push(metrics.measure('launchInfo', async () => {
       // get appPackage et al from manifest if necessary
       appInfo = await this.getLaunchInfo();
-    })());
+    }));
     // start settings app, set the language/locale, start logcat etc...
-    preflightPromises.push(this.initDevice());
+    preflightPromises.push(metrics.measure('initDevice', async () => await this.initDevice()));
 
     await B.all(preflightPromises);
 
@@ -581,19 +778,22 @@ class AndroidUiautomator2Driver
   }
 
   async performSessionExecution(capsWithSessionInfo: StringRecord): Promise<void> {
-    await B.all([
+    const metrics = this.startupMetrics.scope('execution');
+    const initialSettings = this.getInitialSettings();
+    await metrics.measure('portsAllocation', async () => await B.all([
       // Prepare the device by forwarding the UiAutomator2 port
-      // This call mutates this.systemPort if it is not set explicitly
-      this.allocateSystemPort(),
+      // This call mutates this.systemPort if it is not set explicitly.
+      // An already running server does not need any port forwarding
+      this.opts.uiautomator2ServerUrl ? B.resolve() : this.allocateSystemPort(),
       // Prepare the device by forwarding the UiAutomator2 MJPEG server port (if
       // applicable)
       this.allocateMjpegServerPort(),
-    ]);
+    ]));
 
     const [uiautomator2,] = await B.all([
       // set up the modified UiAutomator2 server etc
-      this.initUiAutomator2Server(),
-      (async () => {
+      metrics.measure('initServer', async () => await this.initUiAutomator2Server()),
+      metrics.measure('windowAnimation', async () => {
         // Should be after installing io.appium.settings
         if (this.opts.disableWindowAnimation && await this.adb.getApiLevel() < 26) {
           // API level 26 is Android 8.0.
@@ -608,39 +808,45 @@ class AndroidUiautomator2Driver
             this.log.info('Window animation is already disabled');
           }
         }
-      })(),
+      }),
       // set up app under test
       // prepare our actual AUT, get it on the device, etc...
-      this.initAUT(),
+      metrics.measure('initAUT', async () => await this.initAUT()),
     ]);
 
+    // initial settings are applied as soon as the server session is created
+    this._appliedSettings = {...initialSettings};
+    await this.settings.update(initialSettings);
     // launch UiAutomator2 and wait till its online and we have a session
-    await uiautomator2.startSession(capsWithSessionInfo);
+    await uiautomator2.startSession(capsWithSessionInfo, this.startupMetrics.scope('execution.serverSession'));
     // now that everything has started successfully, turn on proxying so all
     // subsequent session requests go straight to/from uiautomator2
     this.jwpProxyActive = true;
   }
 
   async performSessionPostExecSetup(): Promise<void> {
+    const metrics = this.startupMetrics.scope('postExecSetup');
     // Unlock the device after the session is started.
     if (!this.opts.skipUnlock) {
       // unlock the device to prepare it for testing
-      await this.unlock();
+      await metrics.measure('unlock', async () => await this.unlock());
     } else {
       this.log.debug(`'skipUnlock' capability set, so skipping device unlock`);
     }
 
     if (this.isChromeSession) {
       // start a chromedriver session
-      await this.startChromeSession();
+      await metrics.measure('chromeSession', async () => await this.startChromeSession());
     } else if (this.opts.autoLaunch && this.opts.appPackage) {
-      await this.ensureAppStarts();
+      await metrics.measure('appStart', async () => await this.ensureAppStarts());
     }
 
     // if the initial orientation is requested, set it
     if (util.hasValue(this.opts.orientation)) {
       this.log.debug(`Setting initial orientation to '${this.opts.orientation}'`);
-      await this.setOrientation(this.opts.orientation as Orientation);
+      await metrics.measure(
+        'orientation', async () => await this.setOrientation(this.opts.orientation as Orientation)
+      );
     }
 
     // if we want to immediately get into a webview, set our context
@@ -649,7 +855,9 @@ class AndroidUiautomator2Driver
       const viewName = this.defaultWebviewName();
       const timeout = this.opts.autoWebviewTimeout || 2000;
       this.log.info(`Setting auto webview to context '${viewName}' with timeout ${timeout}ms`);
-      await retryInterval(timeout / 500, 500, this.setContext.bind(this), viewName);
+      await metrics.measure(
+        'autoWebview', async () => await retryInterval(timeout / 500, 500, this.setContext.bind(this), viewName)
+      );
     }
 
     // We would like to notify about the initial context setting
@@ -661,7 +869,9 @@ class AndroidUiautomator2Driver
   async startUiAutomator2Session(
     caps: Uiautomator2StartSessionOpts
   ): Promise<Uiautomator2SessionCaps> {
-    const appInfo = await this.performSessionPreExecSetup();
+    const appInfo = await this.startupMetrics.measure(
+      'preExecSetup', async () => await this.performSessionPreExecSetup()
+    );
     // set actual device name, udid, platform version, screen size, screen density, model and manufacturer details
     const sessionInfo: Uiautomator2SessionInfo = {
       deviceName: this.adb.curDeviceId!,
@@ -680,23 +890,133 @@ class AndroidUiautomator2Driver
       }
     }
 
-    await this.performSessionExecution(capsWithSessionInfo);
+    await this.startupMetrics.measure(
+      'execution', async () => await this.performSessionExecution(capsWithSessionInfo)
+    );
+
+    const deviceInfoPromise: Promise<Uiautomator2DeviceDetails|EmptyObject> = this.startupMetrics.measure(
+      'deviceDetails', async () => {
+        try {
+          return await this.getDeviceDetails();
+        } catch (e) {
+          this.log.warn(`Cannot fetch device details. Original error: ${e.message}`);
+          return {};
+        }
+      }
+    );
+
+    await this.startupMetrics.measure(
+      'postExecSetup', async () => await this.performSessionPostExecSetup()
+    );
+
+    return {
+      ...capsWithSessionInfo,
+      ...(await deviceInfoPromise),
+      ...(this.systemPort ? {systemPort: this.systemPort} : {}),
+      ...(this.mjpegServerPort ? {mjpegServerPort: this.mjpegServerPort} : {}),
+    };
+  }
 
-    const deviceInfoPromise: Promise<Uiautomator2DeviceDetails|EmptyObject> = (async () => {
+  /**
+   * Retrieves validated customizations of the instrumentation process from capabilities
+   */
+  getInstrumentationOpts(): Pick<
+    UiAutomator2ServerOptions, 'instrumentationArgs' | 'instrumentationRunner' | 'instrumentationUser'
+  > {
+    const {
+      uiautomator2ServerInstrumentationArgs: args,
+      uiautomator2ServerInstrumentationRunner: runner,
+      uiautomator2ServerInstrumentationUser: user,
+    } = this.opts;
+    let instrumentationArgs: StringRecord<string|number|boolean> | undefined;
+    if (!_.isNil(args)) {
       try {
-        return await this.getDeviceDetails();
+        instrumentationArgs = validateInstrumentationArgs(args);
       } catch (e) {
-        this.log.warn(`Cannot fetch device details. Original error: ${e.message}`);
-        return {};
+        throw this.log.errorWithException(
+          `The 'uiautomator2ServerInstrumentationArgs' capability value is not valid. Original error: ${e.message}`
+        );
       }
-    })();
+    }
+    if (!_.isNil(runner) && !/^[\w.$]+$/.test(runner)) {
+      throw this.log.errorWithException(
+        `The 'uiautomator2ServerInstrumentationRunner' capability must be a full class name. Got '${runner}'`
+      );
+    }
+    if (!_.isNil(user) && !/^(\d+|current)$/.test(user)) {
+      throw this.log.errorWithException(
+        `The 'uiautomator2ServerInstrumentationUser' capability must be a user id or 'current'. Got '${user}'`
+      );
+    }
+    return {
+      instrumentationArgs,
+      instrumentationRunner: runner,
+      instrumentationUser: user,
+    };
+  }
 
-    await this.performSessionPostExecSetup();
+  /**
+   * Retrieves validated settings to be applied to the server session right after its creation
+   */
+  getInitialSettings(): Partial<Uiautomator2Settings> {
+    const {initialSettings} = this.opts;
+    if (_.isNil(initialSettings)) {
+      return {};
+    }
+    try {
+      return validateSettings(initialSettings);
+    } catch (e) {
+      throw this.log.errorWithException(
+        `The 'initialSettings' capability value is not valid. Original error: ${e.message}`
+      );
+    }
+  }
 
-    return {...capsWithSessionInfo, ...(await deviceInfoPromise)};
+  /**
+   * Works out the session setup steps without installing or starting anything on the device under test.
+   * The session created this way cannot be used for automation and could only be deleted.
+   */
+  async planSessionSetup(): Promise<SessionSetupPlan> {
+    this.log.info(`'sessionSetupPlanOnly' is set. Only planning the session setup`);
+    if (!this.opts.uiautomator2ServerUrl) {
+      await this.allocateSystemPort();
+    }
+    this.createUiAutomator2Server();
+    return await this.mobileGetSessionSetupPlan({
+      capabilities: _.pick(this.opts, ['app', 'appPackage', 'appActivity']),
+    });
   }
 
   async initUiAutomator2Server() {
+    this.createUiAutomator2Server();
+    if (this.opts.uiautomator2ServerUrl) {
+      this.log.info(`'uiautomator2ServerUrl' is set. Skipping UIAutomator2 server installation.`);
+    } else if (this.opts.skipServerInstallation) {
+      this.log.info(`'skipServerInstallation' is set. Skipping UIAutomator2 server installation.`);
+    } else {
+      await this.uiautomator2.installServerApk(this.opts.uiautomator2ServerInstallTimeout);
+      try {
+        await this.adb!.addToDeviceIdleWhitelist(
+          SETTINGS_HELPER_ID,
+          SERVER_PACKAGE_ID,
+          SERVER_TEST_PACKAGE_ID
+        );
+      } catch (e) {
+        const err = e as ExecError;
+        this.log.warn(
+          `Cannot add server packages to the Doze whitelist. Original error: ` +
+            (err.stderr || err.message)
+        );
+      }
+    }
+
+    return this.uiautomator2;
+  }
+
+  /**
+   * Creates the UiAutomator2 server client without installing or starting the server
+   */
+  createUiAutomator2Server(): UiAutomator2Server {
     // broken out for readability
     const uiautomator2Opts = {
       // @ts-expect-error FIXME: maybe `address` instead of `host`?
@@ -708,7 +1028,31 @@ class AndroidUiautomator2Driver
       disableWindowAnimation: !!this.opts.disableWindowAnimation,
       disableSuppressAccessibilityService: this.opts.disableSuppressAccessibilityService,
       readTimeout: this.opts.uiautomator2ServerReadTimeout,
+      crashRecovery: !!this.opts.uiautomator2ServerCrashRecovery,
+      getSettings: () => this._appliedSettings,
+      healthCheckInterval: this.opts.uiautomator2ServerHealthCheckInterval,
+      onHealthChange: this.notifyBiDiServerHealthChange.bind(this),
+      relocateStaleElement: this.relocateStaleElement.bind(this),
+      ...this.getInstrumentationOpts(),
     };
+    if (this.opts.uiautomator2ServerUrl) {
+      let serverUrlInfo: ReturnType<typeof parseServerUrl>;
+      try {
+        serverUrlInfo = parseServerUrl(this.opts.uiautomator2ServerUrl);
+      } catch (e) {
+        throw this.log.errorWithException(
+          `Cannot parse the 'uiautomator2ServerUrl' capability value. Original error: ${e.message}`
+        );
+      }
+      const {scheme, host, port, base} = serverUrlInfo;
+      Object.assign(uiautomator2Opts, {
+        host,
+        systemPort: port,
+        scheme,
+        base,
+        externalServer: true,
+      });
+    }
     // now that we have package and activity, we can create an instance of
     // uiautomator2 with the appropriate options
     this.uiautomator2 = new UiAutomator2Server(this.log, uiautomator2Opts);
@@ -716,26 +1060,6 @@ class AndroidUiautomator2Driver
     this.proxyCommand = this.uiautomator2.proxyCommand.bind(
       this.uiautomator2
     ) as typeof this.proxyCommand;
-
-    if (this.opts.skipServerInstallation) {
-      this.log.info(`'skipServerInstallation' is set. Skipping UIAutomator2 server installation.`);
-    } else {
-      await this.uiautomator2.installServerApk(this.opts.uiautomator2ServerInstallTimeout);
-      try {
-        await this.adb!.addToDeviceIdleWhitelist(
-          SETTINGS_HELPER_ID,
-          SERVER_PACKAGE_ID,
-          SERVER_TEST_PACKAGE_ID
-        );
-      } catch (e) {
-        const err = e as ExecError;
-        this.log.warn(
-          `Cannot add server packages to the Doze whitelist. Original error: ` +
-            (err.stderr || err.message)
-        );
-      }
-    }
-
     return this.uiautomator2;
   }
 
@@ -838,111 +1162,125 @@ class AndroidUiautomator2Driver
 
   async deleteSession() {
     this.log.debug('Deleting UiAutomator2 session');
+    const teardown = new SessionTeardown(this.log);
 
-    const screenRecordingStopTasks = [
-      async () => {
-        if (!_.isEmpty(this._screenRecordingProperties)) {
-          await this.stopRecordingScreen();
-        }
-      },
-      async () => {
-        if (await this.mobileIsMediaProjectionRecordingRunning()) {
-          await this.mobileStopMediaProjectionRecording();
-        }
-      },
-      async () => {
-        if (!_.isEmpty(this._screenStreamingProps)) {
-          await this.mobileStopScreenStreaming();
-        }
-      },
-    ];
-
-    try {
-      await this.stopChromedriverProxies();
-    } catch (err) {
-      this.log.warn(`Unable to stop ChromeDriver proxies: ${(err as Error).message}`);
+    for (const [name, hook] of this.teardownHooks) {
+      await teardown.run(`hook:${name}`, async () => await hook(this));
     }
+    this.teardownHooks.clear();
+
+    await teardown.run('stopChromedriverProxies', async () => await this.stopChromedriverProxies());
 
     if (this.jwpProxyActive) {
-      try {
-        await this.uiautomator2.deleteSession();
-      } catch (err) {
-        this.log.warn(`Unable to proxy deleteSession to UiAutomator2: ${(err as Error).message}`);
-      }
+      await teardown.run('deleteServerSession', async () => await this.uiautomator2.deleteSession());
       this.jwpProxyActive = false;
+    } else {
+      teardown.skip('deleteServerSession', 'The UiAutomator2 server session is not active');
     }
 
     if (this.adb) {
-      await B.all(
-        screenRecordingStopTasks.map((task) => {
-          (async () => {
-            try {
-              await task();
-            } catch {}
-          })();
-        })
-      );
-
-      if (this.opts.appPackage) {
-        if (
-          !this.isChromeSession &&
-          ((!this.opts.dontStopAppOnReset && !this.opts.noReset) ||
-            (this.opts.noReset && this.opts.shouldTerminateApp))
-        ) {
-          try {
-            await this.adb.forceStop(this.opts.appPackage);
-          } catch (err) {
-            this.log.warn(`Unable to force stop app: ${(err as Error).message}`);
+      await B.all([
+        (async () => {
+          if (_.isEmpty(this._screenRecordingProperties)) {
+            teardown.skip('stopScreenRecording', 'Screen recording is not running');
+            return;
           }
-        }
-        if (this.opts.fullReset && !this.opts.skipUninstall) {
-          this.log.debug(
-            `Capability 'fullReset' set to 'true', Uninstalling '${this.opts.appPackage}'`
+          await teardown.run('stopScreenRecording', async () => await this.stopRecordingScreen());
+        })(),
+        (async () => {
+          // the recording is still attempted to be stopped if its state cannot be retrieved
+          const isRecordingRunning = await B.try(
+            async () => await this.mobileIsMediaProjectionRecordingRunning()
+          ).catch(() => true);
+          if (!isRecordingRunning) {
+            teardown.skip('stopMediaProjectionRecording', 'Media projection recording is not running');
+            return;
+          }
+          await teardown.run(
+            'stopMediaProjectionRecording',
+            async () => await this.mobileStopMediaProjectionRecording()
           );
-          try {
-            await this.adb.uninstallApk(this.opts.appPackage);
-          } catch (err) {
-            this.log.warn(`Unable to uninstall app: ${(err as Error).message}`);
+        })(),
+        (async () => {
+          if (_.isEmpty(this._screenStreamingProps)) {
+            teardown.skip('stopScreenStreaming', 'Screen streaming is not running');
+            return;
           }
-        }
+          await teardown.run('stopScreenStreaming', async () => await this.mobileStopScreenStreaming());
+        })(),
+      ]);
+
+      // nothing is changed on the device under test while only planning the session setup
+      const setupPlanOnlyReason = `'sessionSetupPlanOnly' capability is enabled`;
+      if (this.opts.sessionSetupPlanOnly) {
+        teardown.skip('forceStopApp', setupPlanOnlyReason);
+      } else if (!this.opts.appPackage) {
+        teardown.skip('forceStopApp', `'appPackage' capability is not set`);
+      } else if (this.isChromeSession) {
+        teardown.skip('forceStopApp', 'Chrome sessions do not stop the browser');
+      } else if (
+        (!this.opts.dontStopAppOnReset && !this.opts.noReset) ||
+        (this.opts.noReset && this.opts.shouldTerminateApp)
+      ) {
+        await teardown.run('forceStopApp', async () => await this.adb.forceStop(this.opts.appPackage as string));
+      } else {
+        teardown.skip('forceStopApp', `'noReset' or 'dontStopAppOnReset' capability is enabled`);
+      }
+      if (this.opts.sessionSetupPlanOnly) {
+        teardown.skip('uninstallApp', setupPlanOnlyReason);
+      } else if (this.opts.appPackage && this.opts.fullReset && !this.opts.skipUninstall) {
+        this.log.debug(
+          `Capability 'fullReset' set to 'true', Uninstalling '${this.opts.appPackage}'`
+        );
+        await teardown.run('uninstallApp', async () => await this.adb.uninstallApk(this.opts.appPackage as string));
+      } else {
+        teardown.skip('uninstallApp', `'fullReset' capability is not enabled or 'skipUninstall' capability is enabled`);
       }
       // This value can be true if test target device is <= 26
       if (this._wasWindowAnimationDisabled) {
         this.log.info('Restoring window animation state');
-        await this.settingsApp.setAnimationState(true);
+        await teardown.run('restoreAnimation', async () => await this.settingsApp.setAnimationState(true));
+      } else {
+        teardown.skip('restoreAnimation', 'Window animation has not been disabled by the session');
       }
       if (this._originalIme) {
-        try {
-          await this.adb.setIME(this._originalIme);
-        } catch (e) {
-          this.log.warn(`Cannot restore the original IME: ${e.message}`);
-        }
-      }
-      try {
-        await this.releaseSystemPort();
-      } catch (error) {
-        this.log.warn(`Unable to remove system port forward: ${(error as Error).message}`);
-        // Ignore, this block will also be called when we fall in catch block
-        // and before even port forward.
-      }
-      try {
-        await this.releaseMjpegServerPort();
-      } catch (error) {
-        this.log.warn(`Unable to remove MJPEG server port forward: ${(error as Error).message}`);
-        // Ignore, this block will also be called when we fall in catch block
-        // and before even port forward.
+        const originalIme = this._originalIme;
+        await teardown.run('restoreIme', async () => await this.adb.setIME(originalIme));
+      } else {
+        teardown.skip('restoreIme', 'The input method has not been changed by the session');
       }
+      // Port forwards might not exist if the session creation has failed before they were made
+      await teardown.run('releaseSystemPort', async () => await this.releaseSystemPort());
+      await teardown.run('releaseMjpegServerPort', async () => await this.releaseMjpegServerPort());
 
-      if ((await this.adb.getApiLevel()) >= 28) {
-        // Android P
-        this.log.info('Restoring hidden api policy to the device default configuration');
-        await this.adb.setDefaultHiddenApiPolicy(!!this.opts.ignoreHiddenApiPolicyError);
+      if (this.opts.sessionSetupPlanOnly) {
+        teardown.skip('restoreHiddenApiPolicy', setupPlanOnlyReason);
+      } else {
+        const apiLevel = await B.try(async () => await this.adb.getApiLevel()).catch(() => null);
+        if (apiLevel !== null && apiLevel < 28) {
+          teardown.skip('restoreHiddenApiPolicy', 'Hidden API policy only exists since Android P');
+        } else {
+          await teardown.run('restoreHiddenApiPolicy', async () => {
+            this.log.info('Restoring hidden api policy to the device default configuration');
+            await this.adb.setDefaultHiddenApiPolicy(!!this.opts.ignoreHiddenApiPolicyError);
+          });
+        }
       }
     }
     if (this.mjpegStream) {
       this.log.info('Closing MJPEG stream');
-      this.mjpegStream.stop();
+      const mjpegStream = this.mjpegStream;
+      await teardown.run('stopMjpegStream', () => mjpegStream.stop());
     }
+    if (this.deviceLease) {
+      const deviceLease = this.deviceLease;
+      await teardown.run('releaseDeviceLease', async () => await deviceLease.release());
+      this.deviceLease = undefined;
+    }
+
+    this.lastTeardownReport = teardown.toJSON();
+    this.log.info(teardown.toSummary());
+    this.notifyBiDiSessionTeardown(this.lastTeardownReport);
     await super.deleteSession();
   }
 
@@ -955,7 +1293,35 @@ class AndroidUiautomator2Driver
 
   async onSettingsUpdate() {
     // intentionally do nothing here, since commands.updateSettings proxies
-    // settings to the uiauto2 server already
+    // settings to the uiauto2 server already. Explicitly applied settings
+    // are replayed by UiAutomator2Server to each new server session
+  }
+
+  override async executeCommand(cmd: string, ...args: any[]): Promise<any> {
+    if (this.sessionId && this.opts.sessionSetupPlanOnly && !SETUP_PLAN_SESSION_COMMANDS.has(cmd)) {
+      throw new errors.UnsupportedOperationError(
+        `The '${cmd}' command is not supported, because the session has been created with ` +
+        `'sessionSetupPlanOnly' capability enabled. Delete the session and create a new one ` +
+        `without this capability in order to automate the device`
+      );
+    }
+    // selectors or texts might look like snapshot element identifiers as well
+    const snapshotElementId = args.find((arg) => _.isString(arg) && this._snapshotElements.has(arg));
+    if (snapshotElementId && !isSnapshotElementCommand(cmd)) {
+      throw new errors.UnsupportedOperationError(
+        `The '${cmd}' command cannot be applied to the element '${snapshotElementId}', ` +
+        `because it has been found in a lookup snapshot. Disable the 'enableSnapshotLookup' setting ` +
+        `and locate the element again in order to use this command`
+      );
+    }
+    try {
+      return await super.executeCommand(cmd, ...args);
+    } finally {
+      if (this._lookupSnapshot && !isSnapshotPreservingCommand(cmd, args)) {
+        this.log.debug(`Dropping the lookup snapshot after the '${cmd}' command`);
+        dropLookupSnapshot.bind(this)();
+      }
+    }
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -989,9 +1355,16 @@ class AndroidUiautomator2Driver
     return this.jwpProxyAvoid;
   }
 
-  async updateSettings(settings: Uiautomator2Settings) {
-    await this.settings.update(settings);
+  override proxyRouteIsAvoided(sessionId: string, method: HTTPMethod, url: string, body?: any): boolean {
+    return SNAPSHOT_ELEMENT_ROUTE.test(url) || super.proxyRouteIsAvoided(sessionId, method, url, body);
+  }
+
+  async updateSettings(settings: Partial<Uiautomator2Settings>) {
+    validateSettings(settings);
     await this.uiautomator2!.jwproxy.command('/appium/settings', 'POST', {settings});
+    // only remember settings accepted by the server, so they could be replayed to new server sessions
+    this._appliedSettings = {...this._appliedSettings, ...settings};
+    await this.settings.update(settings);
   }
 
   async getSettings() {
@@ -1038,11 +1411,15 @@ class AndroidUiautomator2Driver
   click = click;
   clear = clear;
   mobileReplaceElementValue = mobileReplaceElementValue;
+  mobileGetElementsProperties = mobileGetElementsProperties;
 
   executeMobile = executeMobile;
   mobileCommandsMapping = mobileCommandsMapping;
 
   doFindElementOrEls = doFindElementOrEls;
+  mobileTranslateSelector = mobileTranslateSelector;
+  relocateStaleElement = relocateStaleElement;
+  mobileWaitFor = mobileWaitFor;
 
   mobileClickGesture = mobileClickGesture;
   mobileDoubleClickGesture = mobileDoubleClickGesture;
@@ -1052,6 +1429,7 @@ class AndroidUiautomator2Driver
   mobilePinchCloseGesture = mobilePinchCloseGesture;
   mobilePinchOpenGesture = mobilePinchOpenGesture;
   mobileScroll = mobileScroll;
+  mobileScrollToElement = mobileScrollToElement;
   mobileScrollBackTo = mobileScrollBackTo;
   mobileScrollGesture = mobileScrollGesture;
   mobileSwipeGesture = mobileSwipeGesture;
@@ -1069,6 +1447,22 @@ class AndroidUiautomator2Driver
   openNotifications = openNotifications;
   suspendChromedriverProxy = suspendChromedriverProxy as any;
   mobileGetDeviceInfo = mobileGetDeviceInfo;
+  mobileGetSessionStartupMetrics = mobileGetSessionStartupMetrics;
+  mobileGetProxyStats = mobileGetProxyStats;
+  mobileWaitForStableUi = mobileWaitForStableUi;
+  mobileGetSource = mobileGetSource;
+  mobileCaptureSourceSnapshot = mobileCaptureSourceSnapshot;
+  mobileDiffSourceSnapshots = mobileDiffSourceSnapshots;
+  mobileAccessibilityAudit = mobileAccessibilityAudit;
+  mobileGetSessionSetupPlan = mobileGetSessionSetupPlan;
+  mobileGetUiautomator2ServerLogs = mobileGetUiautomator2ServerLogs;
+  mobileGetUiautomator2ServerHealth = mobileGetUiautomator2ServerHealth;
+  notifyBiDiServerHealthChange = notifyBiDiServerHealthChange;
+  registerTeardownHook = registerTeardownHook;
+  unregisterTeardownHook = unregisterTeardownHook;
+  notifyBiDiSessionTeardown = notifyBiDiSessionTeardown;
+  mobilePushSettings = mobilePushSettings;
+  mobilePopSettings = mobilePopSettings;
 
   getClipboard = getClipboard;
   mobileGetClipboard = mobileGetClipboard;
@@ -1,5 +1,14 @@
+import _ from 'lodash';
 import path from 'path';
-import { fs, system } from 'appium/support';
+import { fs, system, util } from 'appium/support';
+import { errors, isErrorType, validateCaps } from 'appium/driver';
+import { select as selectXPath } from 'xpath';
+import { DOMParser } from '@xmldom/xmldom';
+import { UIAUTOMATOR2_SETTINGS_CONSTRAINTS, UIAUTOMATOR2_SETTINGS_RANGES } from './constraints';
+import log from './logger';
+
+export const ELEMENT_NODE_TYPE = 1;
+const BOUNDS_PATTERN = /^\[(-?\d+),(-?\d+)\]\[(-?\d+),(-?\d+)\]$/;
 
 /**
  * @param {string} filePath
@@ -35,3 +44,229 @@ export async function signApp(adb, appPath) {
   }
   await adb.sign(appPath);
 }
+
+/**
+ * Parses the URL of an already running UiAutomator2 server
+ *
+ * @param {string} url
+ * @returns {{scheme: string, host: string, port: number, base: string}}
+ * @throws {Error} If the given URL is not a valid HTTP(S) URL
+ */
+export function parseServerUrl(url) {
+  let parsedUrl;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    throw new Error(`'${url}' is not a valid UiAutomator2 server URL`);
+  }
+  const scheme = parsedUrl.protocol.replace(/:$/, '');
+  if (!['http', 'https'].includes(scheme)) {
+    throw new Error(`The UiAutomator2 server URL must use either http or https scheme. Got '${url}'`);
+  }
+  return {
+    scheme,
+    host: parsedUrl.hostname,
+    port: parsedUrl.port ? parseInt(parsedUrl.port, 10) : (scheme === 'https' ? 443 : 80),
+    base: parsedUrl.pathname.replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Parses the range of local port numbers provided as a capability value
+ *
+ * @param {any} range The range value. Must be an array of two port numbers: `[start, end]`
+ * @param {string} capName The name of the capability the range was provided by
+ * @returns {[number, number]}
+ * @throws {Error} If the given value is not a valid port range
+ */
+export function parsePortRange(range, capName) {
+  const isValidPort = (/** @type {any} */ x) => Number.isInteger(x) && x > 0 && x <= 65535;
+  if (!Array.isArray(range) || range.length !== 2 || !range.every(isValidPort) || range[0] > range[1]) {
+    throw new Error(
+      `The '${capName}' capability must be an array of two port numbers: [start, end], ` +
+      `where start <= end. Got ${JSON.stringify(range)}`
+    );
+  }
+  return [range[0], range[1]];
+}
+
+/**
+ * Validates custom instrumentation process arguments
+ *
+ * @param {any} args The map of argument names to their values
+ * @returns {import('@appium/types').StringRecord<string|number|boolean>}
+ * @throws {Error} If any argument name or value is not valid
+ */
+export function validateInstrumentationArgs(args) {
+  if (!_.isPlainObject(args)) {
+    throw new Error(`Instrumentation arguments must be a map. Got ${JSON.stringify(args)}`);
+  }
+  for (const [key, value] of _.toPairs(args)) {
+    if (!/^[\w.-]+$/.test(key)) {
+      throw new Error(
+        `Instrumentation argument names may only contain alphanumeric characters, dots, ` +
+        `dashes and underscores. Got '${key}'`
+      );
+    }
+    if (!_.isString(value) && !_.isNumber(value) && !_.isBoolean(value)) {
+      throw new Error(
+        `The value of '${key}' instrumentation argument must be a string, a number or a boolean. ` +
+        `Got ${JSON.stringify(value)}`
+      );
+    }
+  }
+  return args;
+}
+
+/**
+ * Validates values of the given driver settings.
+ * Settings unknown to the driver are only reported, as they might still be
+ * supported by the server or by plugins.
+ *
+ * @param {any} settings The map of setting names to their values
+ * @returns {Partial<import('./types').Uiautomator2Settings>}
+ * @throws {errors.InvalidArgumentError} If any known setting value is not valid
+ */
+export function validateSettings(settings) {
+  if (!_.isPlainObject(settings)) {
+    throw new errors.InvalidArgumentError(`Settings must be a map. Got ${JSON.stringify(settings)}`);
+  }
+  const unknownNames = _.difference(_.keys(settings), _.keys(UIAUTOMATOR2_SETTINGS_CONSTRAINTS));
+  if (!_.isEmpty(unknownNames)) {
+    log.warn(
+      `${util.pluralize('Setting', unknownNames.length)} ${unknownNames.map((name) => `'${name}'`).join(', ')} ` +
+      `${unknownNames.length === 1 ? 'is' : 'are'} not known to the driver and will be sent to the server as is. ` +
+      `Known settings are: ${_.keys(UIAUTOMATOR2_SETTINGS_CONSTRAINTS).join(', ')}`
+    );
+  }
+  validateCaps(/** @type {any} */ (_.omit(settings, unknownNames)), UIAUTOMATOR2_SETTINGS_CONSTRAINTS);
+  for (const [name, [min, max]] of _.toPairs(UIAUTOMATOR2_SETTINGS_RANGES)) {
+    const value = settings[name];
+    if (_.isNil(value)) {
+      continue;
+    }
+    if (!_.isInteger(value) || value < min || value > max) {
+      throw new errors.InvalidArgumentError(
+        `The value of '${name}' setting must be an integer in range ${min}..${max}. Got ${JSON.stringify(value)}`
+      );
+    }
+  }
+  return settings;
+}
+
+/**
+ * Parses the bounds attribute of a page source element
+ *
+ * @param {string|null} [bounds] The value of the bounds attribute, for example `[0,0][100,200]`
+ * @returns {import('@appium/types').Rect|null} The element rectangle or null if the value is not valid
+ */
+export function parseBounds(bounds) {
+  const match = BOUNDS_PATTERN.exec(bounds ?? '');
+  if (!match) {
+    return null;
+  }
+  const [left, top, right, bottom] = match.slice(1).map(Number);
+  return {
+    x: left,
+    y: top,
+    width: right - left,
+    height: bottom - top,
+  };
+}
+
+/**
+ * Extracts the error returned by the server if the given error is a proxy request error
+ *
+ * @param {any} e
+ * @returns {any} The actual server error or the given error itself
+ */
+export function toActualError(e) {
+  return isErrorType(e, errors.ProxyRequestError) ? e.getActualError() : e;
+}
+
+/**
+ * Quote the given string as XPath 1.0 literal
+ *
+ * @param {string} value
+ * @returns {string}
+ */
+export function toXPathLiteral(value) {
+  if (!value.includes('"')) {
+    return `"${value}"`;
+  }
+  if (!value.includes(`'`)) {
+    return `'${value}'`;
+  }
+  return `concat(${value.split('"').map((part) => `"${part}"`).join(`, '"', `)})`;
+}
+
+/**
+ * Verifies the syntax of the given XPath 1.0 expression without evaluating it
+ *
+ * @param {string} selector
+ * @throws {errors.InvalidSelectorError} If the expression cannot be parsed. The parser
+ * does not report where it has failed, so `position` property of the error is always null
+ */
+export function validateXPathSyntax(selector) {
+  // the expression is evaluated against an empty hierarchy, which is enough to parse it
+  const document = /** @type {Node} */ (
+    /** @type {unknown} */ (new DOMParser().parseFromString('<hierarchy/>', 'text/xml'))
+  );
+  try {
+    selectXPath(selector, document);
+  } catch (e) {
+    throw Object.assign(
+      new errors.InvalidSelectorError(`Invalid XPath selector '${selector}'. Reason: '${e.message}'`),
+      {position: null}
+    );
+  }
+}
+
+/**
+ * Verifies that parentheses and string literals of the given `-android uiautomator` selector
+ * are balanced. The rest of the syntax is only verified by the server
+ *
+ * @param {string} selector
+ * @throws {errors.InvalidSelectorError} If the selector is not balanced. The error
+ * has `position` property containing the zero-based position of the failure
+ */
+export function validateUiSelectorSyntax(selector) {
+  /** @type {number[]} */
+  const openParenPositions = [];
+  /** @type {number|null} */
+  let literalStartPosition = null;
+  /**
+   * @param {string} reason
+   * @param {number} position
+   */
+  const fail = (reason, position) => {
+    throw Object.assign(
+      new errors.InvalidSelectorError(`Invalid UiSelector '${selector}'. Reason: '${reason}'`),
+      {position}
+    );
+  };
+  for (let position = 0; position < selector.length; position++) {
+    const char = selector.charAt(position);
+    if (!_.isNull(literalStartPosition)) {
+      if (char === '\\') {
+        position++;
+      } else if (char === '"') {
+        literalStartPosition = null;
+      }
+      continue;
+    }
+    if (char === '"') {
+      literalStartPosition = position;
+    } else if (char === '(') {
+      openParenPositions.push(position);
+    } else if (char === ')' && _.isUndefined(openParenPositions.pop())) {
+      fail('Unexpected closing parenthesis', position);
+    }
+  }
+  if (!_.isNull(literalStartPosition)) {
+    fail('Unterminated string literal', literalStartPosition);
+  }
+  if (!_.isEmpty(openParenPositions)) {
+    fail('Unclosed parenthesis', /** @type {number} */ (_.last(openParenPositions)));
+  }
+}
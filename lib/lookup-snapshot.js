@@ -0,0 +1,221 @@
+import _ from 'lodash';
+import { select as selectXPath } from 'xpath';
+import { DOMParser } from '@xmldom/xmldom';
+import { errors } from 'appium/driver';
+import { util } from 'appium/support';
+import { ELEMENT_NODE_TYPE, parseBounds } from './helpers';
+
+export const SNAPSHOT_ELEMENT_ID_PREFIX = 'snapshot-';
+// These commands never change the state of the application under test,
+// so the page source fetched before them is still actual
+const SNAPSHOT_PRESERVING_COMMANDS = new Set([
+  'active',
+  'elementDisplayed',
+  'elementEnabled',
+  'elementSelected',
+  'findElement',
+  'findElementFromElement',
+  'findElements',
+  'findElementsFromElement',
+  'getAlertText',
+  'getAttribute',
+  'getClipboard',
+  'getContexts',
+  'getCurrentActivity',
+  'getCurrentContext',
+  'getCurrentPackage',
+  'getElementRect',
+  'getElementScreenshot',
+  'getLocation',
+  'getLocationInView',
+  'getLog',
+  'getLogTypes',
+  'getName',
+  'getOrientation',
+  'getPageSource',
+  'getProperty',
+  'getScreenshot',
+  'getSession',
+  'getSettings',
+  'getSize',
+  'getStatus',
+  'getText',
+  'getTimeouts',
+  'getWindowHandle',
+  'getWindowHandles',
+  'getWindowRect',
+  'getWindowSize',
+  'implicitWait',
+  'isKeyboardShown',
+  'timeouts',
+]);
+// These commands are able to handle elements found in a lookup snapshot.
+// Other commands would need the element to be known to the server
+const SNAPSHOT_ELEMENT_COMMANDS = new Set([
+  'click',
+  'elementDisplayed',
+  'elementEnabled',
+  'elementSelected',
+  'findElementFromElement',
+  'findElementsFromElement',
+  'getAttribute',
+  'getElementRect',
+  'getLocation',
+  'getName',
+  'getSize',
+  'getText',
+]);
+
+/**
+ * Page source of the application under test, which is used to look up elements
+ * locally instead of sending a lookup request to the server for each locator.
+ * Elements found in a snapshot are represented by lightweight handles, which
+ * only remember the attributes and the position of the matched node.
+ */
+export class LookupSnapshot {
+  /** @type {Document} */
+  _document;
+
+  /** @type {Map<string, Element>} */
+  _nodes;
+
+  /**
+   * @param {string} source The XML page source as returned by the server
+   */
+  constructor (source) {
+    try {
+      this._document = /** @type {Document} */ (
+        /** @type {unknown} */ (new DOMParser().parseFromString(source, 'text/xml'))
+      );
+    } catch (e) {
+      throw new Error(`Cannot parse the page source into a lookup snapshot: ${e.message}`);
+    }
+    this._nodes = new Map();
+  }
+
+  /**
+   * Evaluates the given XPath 1.0 expression against the snapshot
+   *
+   * @param {string} selector The XPath expression
+   * @param {string} [contextId] The identifier of a snapshot element to look up
+   * descendant elements of. The whole snapshot is searched if not provided
+   * @returns {SnapshotElement[]} Handles of matched elements in document order
+   * @throws {errors.InvalidSelectorError} If the expression is invalid or does not select elements
+   * @throws {errors.StaleElementReferenceError} If the context element belongs to another snapshot
+   */
+  find (selector, contextId) {
+    let contextNode = null;
+    if (contextId) {
+      contextNode = this._nodes.get(contextId);
+      if (!contextNode) {
+        throw new errors.StaleElementReferenceError(
+          `The element '${contextId}' does not belong to the current lookup snapshot`
+        );
+      }
+    }
+    let result;
+    try {
+      result = selectXPath(selector, contextNode ?? this._document);
+    } catch (e) {
+      throw new errors.InvalidSelectorError(`Invalid XPath selector '${selector}': ${e.message}`);
+    }
+    if (!_.isArray(result)) {
+      throw new errors.InvalidSelectorError(`The XPath selector '${selector}' must select elements`);
+    }
+    return /** @type {Element[]} */ (result)
+      .filter((node) => node.nodeType === ELEMENT_NODE_TYPE)
+      // absolute expressions are evaluated against the whole document,
+      // although only descendants of the context element are expected to be found
+      .filter((node) => !contextNode || (node !== contextNode && isDescendantOf(node, contextNode)))
+      .map((node) => this._toSnapshotElement(node));
+  }
+
+  /**
+   * @param {Element} node
+   * @returns {SnapshotElement}
+   */
+  _toSnapshotElement (node) {
+    const elementId = `${SNAPSHOT_ELEMENT_ID_PREFIX}${util.uuidV4()}`;
+    this._nodes.set(elementId, node);
+    /** @type {import('@appium/types').StringRecord<string>} */
+    const attributes = {};
+    for (let i = 0; i < node.attributes.length; i++) {
+      const {name, value} = node.attributes[i];
+      attributes[name] = value;
+    }
+    return {
+      elementId,
+      tagName: node.nodeName,
+      attributes,
+      rect: parseBounds(attributes.bounds) ?? {x: 0, y: 0, width: 0, height: 0},
+    };
+  }
+}
+
+/**
+ * @param {any} elementId
+ * @returns {boolean} True if the given element identifier belongs to a lookup snapshot element
+ */
+export function isSnapshotElementId (elementId) {
+  return _.isString(elementId) && elementId.startsWith(SNAPSHOT_ELEMENT_ID_PREFIX);
+}
+
+/**
+ * @param {string} cmd The name of the executed driver command
+ * @param {any[]} args The command arguments
+ * @returns {boolean} True if the lookup snapshot is still actual after the given command
+ */
+export function isSnapshotPreservingCommand (cmd, args) {
+  if (cmd === 'proxyReqRes') {
+    // proxied GET requests only retrieve information from the server
+    return _.toUpper(args[0]?.method) === 'GET';
+  }
+  return SNAPSHOT_PRESERVING_COMMANDS.has(cmd);
+}
+
+/**
+ * @param {string} cmd The name of the executed driver command
+ * @returns {boolean} True if the given command supports elements found in a lookup snapshot
+ */
+export function isSnapshotElementCommand (cmd) {
+  return SNAPSHOT_ELEMENT_COMMANDS.has(cmd);
+}
+
+/**
+ * Drops the current lookup snapshot, so the next snapshot lookup fetches a fresh page source.
+ * Elements found in the dropped snapshot are forgotten and become stale
+ *
+ * @this {import('./driver').AndroidUiautomator2Driver}
+ */
+export function dropLookupSnapshot () {
+  this._lookupSnapshot = undefined;
+  this._snapshotElements.clear();
+}
+
+// #region Internal Helpers
+
+/**
+ * @param {Node} node
+ * @param {Node} ancestor
+ * @returns {boolean}
+ */
+function isDescendantOf (node, ancestor) {
+  for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+    if (parent === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// #endregion
+
+export default LookupSnapshot;
+
+/**
+ * @typedef {Object} SnapshotElement
+ * @property {string} elementId
+ * @property {string} tagName
+ * @property {import('@appium/types').StringRecord<string>} attributes
+ * @property {import('@appium/types').Rect} rect
+ */
@@ -0,0 +1,159 @@
+import _ from 'lodash';
+import { util } from 'appium/support';
+
+// Percentiles are calculated over the given count of most recent calls of each route
+const MAX_LATENCY_SAMPLES = 1000;
+const MAX_SUMMARY_ROUTES = 10;
+const UNKNOWN_STATUS = 'unknown';
+
+/**
+ * Collects latency and error statistics of proxied requests per route.
+ * Routes are normalized, so requests to different elements or sessions
+ * are counted as the same route, for example `POST /element/:elementId/click`.
+ * Session and base path prefixes are stripped, since requests proxied from clients
+ * have them while requests sent by the driver itself do not.
+ */
+export class ProxyStats {
+  /** @type {Map<string, RouteStatsRecord>} */
+  _routes;
+
+  constructor () {
+    this._routes = new Map();
+  }
+
+  /**
+   * Records a single proxied request
+   *
+   * @param {string} method The HTTP method of the request
+   * @param {string} url The request URL
+   * @param {number} durationMs The duration of the request in milliseconds
+   * @param {number|string|null} [errorStatus] The HTTP status code of the failed request,
+   * `unknown` if the request has failed without a response or null if it has succeeded
+   */
+  record (method, url, durationMs, errorStatus = null) {
+    const route = `${_.toUpper(method)} ${normalizeRoute(url)}`;
+    let stats = this._routes.get(route);
+    if (!stats) {
+      stats = {
+        count: 0,
+        totalMs: 0,
+        maxMs: 0,
+        samples: [],
+        errors: {},
+      };
+      this._routes.set(route, stats);
+    }
+    stats.count++;
+    stats.totalMs += durationMs;
+    stats.maxMs = Math.max(stats.maxMs, durationMs);
+    stats.samples.push(durationMs);
+    if (stats.samples.length > MAX_LATENCY_SAMPLES) {
+      stats.samples.shift();
+    }
+    if (!_.isNil(errorStatus)) {
+      const status = String(errorStatus);
+      stats.errors[status] = (stats.errors[status] ?? 0) + 1;
+    }
+  }
+
+  /**
+   * @returns {import('@appium/types').StringRecord<import('./commands/types').RouteStats>}
+   * Statistics of each route, which has been requested at least once
+   */
+  toJSON () {
+    /** @type {import('@appium/types').StringRecord<import('./commands/types').RouteStats>} */
+    const result = {};
+    for (const [route, {count, totalMs, maxMs, samples, errors}] of this._routes) {
+      const sortedSamples = _.sortBy(samples);
+      result[route] = {
+        count,
+        totalMs,
+        errors: {...errors},
+        latencyMs: {
+          p50: percentile(sortedSamples, 50),
+          p95: percentile(sortedSamples, 95),
+          max: maxMs,
+        },
+      };
+    }
+    return result;
+  }
+
+  /**
+   * @returns {string} Human-readable summary of the slowest routes
+   * or an empty string if no requests have been recorded
+   */
+  toSummary () {
+    const stats = _.toPairs(this.toJSON());
+    if (_.isEmpty(stats)) {
+      return '';
+    }
+    // the routes, which took most of the time, come first
+    const slowestStats = _.take(
+      _.sortBy(stats, ([, {totalMs}]) => -totalMs),
+      MAX_SUMMARY_ROUTES
+    );
+    const lines = slowestStats.map(([route, {count, errors, latencyMs}]) => {
+      const errorsSummary = _.isEmpty(errors)
+        ? ''
+        : `, errors: ${_.map(errors, (errCount, status) => `${status}x${errCount}`).join(', ')}`;
+      return `    ${route}: ${count} ${util.pluralize('call', count)}, ` +
+        `p50 ${latencyMs.p50}ms, p95 ${latencyMs.p95}ms, max ${latencyMs.max}ms${errorsSummary}`;
+    });
+    return `Proxied requests statistics (${slowestStats.length} of ${stats.length} routes):\n${lines.join('\n')}`;
+  }
+}
+
+/**
+ * Retrieves the status code of a failed proxied request
+ *
+ * @param {any} err The error thrown by the proxy
+ * @returns {number|string}
+ */
+export function toErrorStatus (err) {
+  const status = err?.response?.status ?? (err?.w3c ? err?.w3cStatus : null);
+  return _.isInteger(status) ? status : UNKNOWN_STATUS;
+}
+
+// #region Internal Helpers
+
+/**
+ * @param {string} url
+ * @returns {string}
+ */
+function normalizeRoute (url) {
+  const pathname = (_.first(url.split('?')) || '/')
+    // everything up to the session identifier, including the base path, is dropped
+    .replace(/^.*?\/session\/[^/]+/, '') || '/';
+  return pathname
+    .replace(/\/element\/(?!active$)[^/]+/g, '/element/:elementId')
+    .replace(/\/shadow\/[^/]+/g, '/shadow/:shadowId');
+}
+
+/**
+ * Calculates the percentile using the nearest-rank method
+ *
+ * @param {number[]} sortedSamples
+ * @param {number} p
+ * @returns {number}
+ */
+function percentile (sortedSamples, p) {
+  if (_.isEmpty(sortedSamples)) {
+    return 0;
+  }
+  const rank = Math.ceil(p / 100 * sortedSamples.length);
+  return sortedSamples[Math.max(rank - 1, 0)];
+}
+
+// #endregion
+
+export default ProxyStats;
+
+/**
+ * @typedef {Object} RouteStatsRecord
+ * @property {number} count
+ * @property {number} totalMs
+ * @property {number} maxMs
+ * @property {number[]} samples Durations of the most recent requests
+ * @property {import('@appium/types').StringRecord<number>} errors
+ */
@@ -0,0 +1,103 @@
+import _ from 'lodash';
+import { timing } from 'appium/support';
+
+/**
+ * Runs best-effort session teardown steps and collects their outcomes.
+ * Failures of particular steps are recorded, but never interrupt the teardown,
+ * so the remaining steps still have a chance to clean up after the session.
+ */
+export class SessionTeardown {
+  /** @type {import('./types').Uiautomator2TeardownStep[]} */
+  _steps;
+
+  /** @type {timing.Timer} */
+  _timer;
+
+  /** @type {import('@appium/types').AppiumLogger} */
+  log;
+
+  /**
+   * @param {import('@appium/types').AppiumLogger} log
+   */
+  constructor (log) {
+    this._steps = [];
+    this._timer = new timing.Timer().start();
+    this.log = log;
+  }
+
+  /**
+   * @returns {number} The count of milliseconds elapsed since the teardown has begun
+   */
+  get elapsedMs () {
+    return Math.round(this._timer.getDuration().asMilliSeconds);
+  }
+
+  /**
+   * Runs the given teardown step. Errors thrown by the step are logged and recorded,
+   * but not rethrown.
+   *
+   * @param {string} name The name of the step
+   * @param {() => Promise<any>|any} fn The step implementation
+   * @returns {Promise<boolean>} True if the step has succeeded
+   */
+  async run (name, fn) {
+    const startOffsetMs = this.elapsedMs;
+    /** @type {import('./types').Uiautomator2TeardownStep} */
+    const step = {
+      name,
+      status: 'succeeded',
+      startOffsetMs,
+      durationMs: 0,
+    };
+    try {
+      await fn();
+    } catch (err) {
+      step.status = 'failed';
+      step.error = err.message;
+      this.log.warn(`The teardown step '${name}' has failed: ${err.message}`);
+    }
+    step.durationMs = this.elapsedMs - startOffsetMs;
+    this._steps.push(step);
+    return step.status === 'succeeded';
+  }
+
+  /**
+   * Records the given teardown step as skipped
+   *
+   * @param {string} name The name of the step
+   * @param {string} reason Human-readable explanation of why the step is not needed
+   */
+  skip (name, reason) {
+    this._steps.push({
+      name,
+      status: 'skipped',
+      startOffsetMs: this.elapsedMs,
+      durationMs: 0,
+      reason,
+    });
+  }
+
+  /**
+   * @returns {string} Human-readable summary of the teardown outcome
+   */
+  toSummary () {
+    const {totalMs, steps} = this.toJSON();
+    const counts = _.countBy(steps, 'status');
+    const failedNames = steps.filter(({status}) => status === 'failed').map(({name}) => name);
+    return `The session teardown has finished in ${totalMs}ms. ` +
+      `Steps succeeded: ${counts.succeeded ?? 0}, failed: ${counts.failed ?? 0}, skipped: ${counts.skipped ?? 0}` +
+      (_.isEmpty(failedNames) ? '' : `. Failed steps: ${failedNames.join(', ')}`);
+  }
+
+  /**
+   * @returns {import('./types').Uiautomator2TeardownReport}
+   */
+  toJSON () {
+    return {
+      totalMs: this.elapsedMs,
+      steps: _.sortBy(this._steps, 'startOffsetMs'),
+    };
+  }
+}
+
+export default SessionTeardown;
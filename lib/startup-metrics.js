@@ -0,0 +1,105 @@
+import _ from 'lodash';
+import { timing } from 'appium/support';
+
+/**
+ * Collects durations of session startup phases and their steps.
+ * Nested steps are named using dot-separated paths, for example
+ * `execution.initAUT` is a step of the `execution` phase.
+ */
+export class StartupMetrics {
+  /** @type {import('./types').Uiautomator2StartupStep[]} */
+  _steps;
+
+  /** @type {timing.Timer} */
+  _timer;
+
+  /** @type {number|null} */
+  _totalMs;
+
+  constructor () {
+    this._steps = [];
+    this._timer = new timing.Timer().start();
+    this._totalMs = null;
+  }
+
+  /**
+   * @returns {number} The count of milliseconds elapsed since the startup has begun
+   */
+  get elapsedMs () {
+    return Math.round(this._timer.getDuration().asMilliSeconds);
+  }
+
+  /**
+   * Measures the duration of the given startup step.
+   * The step is recorded even if it fails.
+   *
+   * @template T
+   * @param {string} name The full dot-separated name of the step
+   * @param {() => Promise<T>|T} fn The step implementation
+   * @returns {Promise<T>} The result of the step implementation
+   */
+  async measure (name, fn) {
+    const startOffsetMs = this.elapsedMs;
+    let succeeded = false;
+    try {
+      const result = await fn();
+      succeeded = true;
+      return result;
+    } finally {
+      this._steps.push({
+        name,
+        startOffsetMs,
+        durationMs: this.elapsedMs - startOffsetMs,
+        succeeded,
+      });
+    }
+  }
+
+  /**
+   * Returns a measurer, which records steps to the same report
+   * with names prefixed by the given parent step name
+   *
+   * @param {string} parentName
+   * @returns {StartupStepMeasurer}
+   */
+  scope (parentName) {
+    return {
+      measure: (name, fn) => this.measure(`${parentName}.${name}`, fn),
+    };
+  }
+
+  /**
+   * Marks the session startup as finished
+   */
+  finish () {
+    if (_.isNull(this._totalMs)) {
+      this._totalMs = this.elapsedMs;
+    }
+  }
+
+  /**
+   * @returns {import('./types').Uiautomator2StartupMetrics}
+   */
+  toJSON () {
+    return {
+      totalMs: this._totalMs ?? this.elapsedMs,
+      finished: !_.isNull(this._totalMs),
+      steps: _.sortBy(this._steps, 'startOffsetMs'),
+    };
+  }
+}
+
+/**
+ * The measurer, which does not record anything
+ * @type {StartupStepMeasurer}
+ */
+export const NOOP_STEP_MEASURER = {
+  measure: async (name, fn) => await fn(),
+};
+
+export default StartupMetrics;
+
+/**
+ * @typedef {Object} StartupStepMeasurer
+ * @property {<T>(name: string, fn: () => Promise<T>|T) => Promise<T>} measure
+ */
@@ -2,6 +2,7 @@ import type {DriverCaps, DriverOpts, W3CDriverCaps} from '@appium/types';
 import type {EmptyObject} from 'type-fest';
 import type {RelativeRect} from './commands/types';
 import type {Uiautomator2Constraints} from './constraints';
+import type {AndroidUiautomator2Driver} from './driver';
 
 export type Uiautomator2DriverOpts = DriverOpts<Uiautomator2Constraints>;
 
@@ -45,9 +46,175 @@ export interface Uiautomator2StartSessionOpts
 export interface Uiautomator2SessionCaps
   extends Uiautomator2ServerInfo,
     Uiautomator2SessionInfo,
-    Partial<Uiautomator2DeviceDetails> {}
+    Partial<Uiautomator2DeviceDetails> {
+  /**
+   * The local port number the UiAutomator2 server port has been forwarded to
+   */
+  systemPort?: number;
+  /**
+   * The local port number the MJPEG server port has been forwarded to
+   */
+  mjpegServerPort?: number;
+  startupMetrics?: Uiautomator2StartupMetrics;
+}
+
+export interface Uiautomator2StartupStep {
+  /**
+   * Dot-separated name of the step, for example `execution.initAUT`
+   */
+  name: string;
+  /**
+   * The count of milliseconds elapsed since the session startup has begun
+   * until the step has started
+   */
+  startOffsetMs: number;
+  durationMs: number;
+  succeeded: boolean;
+}
+
+export interface Uiautomator2StartupMetrics {
+  /**
+   * The total duration of the session startup in milliseconds
+   */
+  totalMs: number;
+  /**
+   * Whether the session startup has been finished
+   */
+  finished: boolean;
+  /**
+   * Startup steps sorted by their start time
+   */
+  steps: Uiautomator2StartupStep[];
+}
+
+export interface Uiautomator2TeardownStep {
+  /**
+   * The name of the step, for example `forceStopApp`. Steps of teardown hooks
+   * are named `hook:<hookName>`
+   */
+  name: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  /**
+   * The count of milliseconds elapsed since the session teardown has begun
+   * until the step has started
+   */
+  startOffsetMs: number;
+  durationMs: number;
+  /**
+   * The error message if the step has failed
+   */
+  error?: string;
+  /**
+   * The explanation of why the step has been skipped
+   */
+  reason?: string;
+}
+
+export interface Uiautomator2TeardownReport {
+  /**
+   * The total duration of the session teardown in milliseconds
+   */
+  totalMs: number;
+  /**
+   * Teardown steps sorted by their start time
+   */
+  steps: Uiautomator2TeardownStep[];
+}
+
+/**
+ * Additional cleanup step, which is executed while the driver session is being deleted
+ */
+export type Uiautomator2TeardownHook = (driver: AndroidUiautomator2Driver) => Promise<void> | void;
 
+/**
+ * Settings supported by the driver. Check the Settings API section of the README
+ * for their detailed descriptions
+ */
 export interface Uiautomator2Settings {
   ignoreUnimportantViews: boolean;
   allowInvisibleElements: boolean;
+  /**
+   * Non-negative number of milliseconds. `3000` by default
+   */
+  actionAcknowledgmentTimeout?: number;
+  /**
+   * Comma-separated list of element attribute names
+   */
+  elementResponseAttributes?: string;
+  enableMultiWindows?: boolean;
+  enableTopmostWindowFromActivePackage?: boolean;
+  enableNotificationListener?: boolean;
+  /**
+   * Non-negative number of milliseconds. `0` by default
+   */
+  keyInjectionDelay?: number;
+  /**
+   * Non-negative number of milliseconds. `200` by default
+   */
+  scrollAcknowledgmentTimeout?: number;
+  shouldUseCompactResponses?: boolean;
+  /**
+   * Non-negative number of milliseconds. `10000` by default
+   */
+  waitForIdleTimeout?: number;
+  /**
+   * Non-negative number of milliseconds. `10000` by default
+   */
+  waitForSelectorTimeout?: number;
+  normalizeTagNames?: boolean;
+  shutdownOnPowerDisconnect?: boolean;
+  simpleBoundsCalculation?: boolean;
+  trackScrollEvents?: boolean;
+  /**
+   * Non-negative number of milliseconds
+   */
+  wakeLockTimeout?: number;
+  /**
+   * In range 1024..65535. `6790` by default
+   */
+  serverPort?: number;
+  /**
+   * In range 1024..65535. `7810` by default
+   */
+  mjpegServerPort?: number;
+  /**
+   * In range 1..60. `10` by default
+   */
+  mjpegServerFramerate?: number;
+  /**
+   * In range 1..100. `50` by default
+   */
+  mjpegScalingFactor?: number;
+  /**
+   * In range 1..100. `50` by default
+   */
+  mjpegServerScreenshotQuality?: number;
+  mjpegBilinearFiltering?: boolean;
+  useResourcesForOrientationDetection?: boolean;
+  enforceXPath1?: boolean;
+  limitXPathContextScope?: boolean;
+  disableIdLocatorAutocompletion?: boolean;
+  includeExtrasInPageSource?: boolean;
+  /**
+   * In range 1..500. `70` by default
+   */
+  snapshotMaxDepth?: number;
+  /**
+   * Non-negative display identifier. `0` (the default display) by default
+   */
+  currentDisplayId?: number;
+  includeA11yActionsInPageSource?: boolean;
+  // The settings below are consumed by the driver itself
+  enableSnapshotLookup?: boolean;
+  enableStaleElementRecovery?: boolean;
+  // The settings below are consumed by the images plugin
+  imageMatchThreshold?: number;
+  fixImageFindScreenshotDims?: boolean;
+  fixImageTemplateSize?: boolean;
+  fixImageTemplateScale?: boolean;
+  defaultImageTemplateScale?: number;
+  checkForImageElementStaleness?: boolean;
+  autoUpdateImageElementPosition?: boolean;
+  imageElementTapStrategy?: 'w3cActions' | 'touchActions';
+  getMatchedImageResult?: boolean;
 }
@@ -1,5 +1,5 @@
 import _ from 'lodash';
-import { JWProxy, errors } from 'appium/driver';
+import { JWProxy, errors, isErrorType } from 'appium/driver';
 import { waitForCondition } from 'asyncbox';
 import {
   SERVER_APK_PATH as apkPath,
@@ -9,30 +9,227 @@ import {
 import { util, timing } from 'appium/support';
 import B from 'bluebird';
 import axios from 'axios';
+import { NOOP_STEP_MEASURER } from './startup-metrics';
+import { ProxyStats, toErrorStatus } from './proxy-stats';
+import { toActualError } from './helpers';
 
 const REQD_PARAMS = ['adb', 'tmpDir', 'host', 'systemPort', 'devicePort', 'disableWindowAnimation'];
 const SERVER_LAUNCH_TIMEOUT = 30000;
 const SERVER_INSTALL_RETRIES = 20;
 const SERVICES_LAUNCH_TIMEOUT = 30000;
+const MAX_INSTRUMENTATION_LOG_ENTRIES = 5000;
+const MAX_HEALTH_HISTORY_ENTRIES = 100;
+const HEALTH_CHECK_TIMEOUT = 10000;
 const SERVER_PACKAGE_ID = 'io.appium.uiautomator2.server';
 const SERVER_TEST_PACKAGE_ID = `${SERVER_PACKAGE_ID}.test`;
 const INSTRUMENTATION_TARGET = `${SERVER_TEST_PACKAGE_ID}/androidx.test.runner.AndroidJUnitRunner`;
+const FIND_ELEMENT_ROUTE = /\/elements?$/;
+const ELEMENT_ID_IN_URL_PATTERN = /\/element\/([^/]+)/;
+// The instrumentation exit is detected asynchronously, so a request failing
+// because of the crash might be rejected before the exit is noticed
+const INSTRUMENTATION_EXIT_DETECTION_TIMEOUT = 2000;
+// Identifiers of older elements are forgotten if the limit is exceeded
+const MAX_RECORDED_ELEMENT_IDS = 5000;
 
 class UIA2Proxy extends JWProxy {
   /** @type {boolean} */
   didInstrumentationExit;
 
+  /**
+   * If set then it is called to restore the server session
+   * instead of failing the command if the instrumentation process has exited
+   * @type {(() => Promise<void>)|undefined}
+   */
+  recoverInstrumentation;
+
+  /** @type {boolean} */
+  isRecoveringInstrumentation = false;
+
+  /**
+   * If set then it is called to locate the element again if its reference has become stale.
+   * The command is retried once with the new element identifier if the element has been found
+   * @type {((elementId: string) => Promise<string|null>)|undefined}
+   */
+  relocateStaleElement;
+
+  /**
+   * Identifiers of the most recent elements returned by the current server session
+   * @type {Set<string>}
+   */
+  knownElementIds = new Set();
+
+  /**
+   * Identifiers of the most recent elements returned by server sessions that do not exist anymore
+   * @type {Set<string>}
+   */
+  staleElementIds = new Set();
+
+  /**
+   * Latency and error statistics of proxied requests
+   * @type {ProxyStats}
+   */
+  stats = new ProxyStats();
+
   /**
    * @override
+   * @param {string} url
+   * @param {import('@appium/types').HTTPMethod} method
+   * @param {import('@appium/types').HTTPBody} [body=null]
+   * @returns {Promise<[import('@appium/types').ProxyResponse, import('@appium/types').HTTPBody]>}
    */
   async proxyCommand (url, method, body = null) {
+    try {
+      return await this.proxyCommandWithRecovery(url, method, body);
+    } catch (e) {
+      const elementId = toElementIdFromUrl(url);
+      if (!elementId || !this.relocateStaleElement || !isStaleElementError(e)) {
+        throw e;
+      }
+      const newElementId = await this.relocateStaleElement(elementId);
+      if (!newElementId) {
+        throw e;
+      }
+      this.log.info(`The element '${elementId}' has become stale and has been located again as '${newElementId}'. ` +
+        `Retrying '${method} ${url}'`);
+      return await this.proxyCommandWithRecovery(
+        url.replace(ELEMENT_ID_IN_URL_PATTERN, `/element/${newElementId}`),
+        method,
+        _.isPlainObject(body)
+          ? _.mapValues(/** @type {import('@appium/types').StringRecord} */ (body),
+            (value) => value === elementId ? newElementId : value)
+          : body
+      );
+    }
+  }
+
+  /**
+   * Proxies the command and retries it once after the server session recovery
+   * if the command has failed because the instrumentation process has crashed
+   *
+   * @param {string} url
+   * @param {import('@appium/types').HTTPMethod} method
+   * @param {import('@appium/types').HTTPBody} [body=null]
+   * @returns {Promise<[import('@appium/types').ProxyResponse, import('@appium/types').HTTPBody]>}
+   */
+  async proxyCommandWithRecovery (url, method, body = null) {
+    try {
+      return await this.proxyCommandOnce(url, method, body);
+    } catch (e) {
+      if (!(await this.isCausedByInstrumentationExit(e))) {
+        throw e;
+      }
+      this.log.warn(`'${method} ${url}' has failed because the instrumentation process has exited. ` +
+        `Retrying it after the server session recovery`);
+      // the recovery itself is performed by the preconditions check
+      return await this.proxyCommandOnce(url, method, body);
+    }
+  }
+
+  /**
+   * @param {any} e The error of a proxied request
+   * @returns {Promise<boolean>} True if the request has failed because of the instrumentation process
+   * exit and the server session could be recovered
+   */
+  async isCausedByInstrumentationExit (e) {
+    // requests sent before the session is created, for example startup status probes,
+    // are expected to fail while the server is not listening yet
+    if (!this.sessionId || !this.recoverInstrumentation || this.isRecoveringInstrumentation) {
+      return false;
+    }
+    // the server has responded, so it was alive
+    if (!(e instanceof errors.ProxyRequestError) || e.w3c || !_.isEmpty(e.jsonwp)) {
+      return false;
+    }
+    try {
+      await waitForCondition(() => this.didInstrumentationExit, {
+        waitMs: INSTRUMENTATION_EXIT_DETECTION_TIMEOUT,
+        intervalMs: 100,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @param {string} url
+   * @param {import('@appium/types').HTTPMethod} method
+   * @param {import('@appium/types').HTTPBody} [body=null]
+   * @returns {Promise<[import('@appium/types').ProxyResponse, import('@appium/types').HTTPBody]>}
+   */
+  async proxyCommandOnce (url, method, body = null) {
+    await this.verifyCommandPreconditions(url, method);
+    // status probes are expected to fail while the server is starting, so they are not counted
+    const isStartupProbe = url === '/status' && (!this.sessionId || this.isRecoveringInstrumentation);
+    const timer = new timing.Timer().start();
+    const getDurationMs = () => Math.round(timer.getDuration().asMilliSeconds);
+    let result;
+    try {
+      result = await super.proxyCommand(url, method, body);
+    } catch (e) {
+      if (!isStartupProbe) {
+        this.stats.record(method, url, getDurationMs(), toErrorStatus(e));
+      }
+      throw e;
+    }
+    if (!isStartupProbe) {
+      this.stats.record(method, url, getDurationMs());
+    }
+    if (method === 'POST' && FIND_ELEMENT_ROUTE.test(url)) {
+      for (const id of toElementIds(result?.[1]?.value)) {
+        addRecordedElementId(this.knownElementIds, id);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * @override
+   * @param {string} url
+   * @param {import('@appium/types').HTTPMethod} method
+   * @param {import('@appium/types').HTTPBody} [body=null]
+   * @returns {Promise<import('@appium/types').HTTPBody>}
+   */
+  async command (url, method, body = null) {
+    // The parent implementation converts all non-proxy errors to unknown errors,
+    // so we perform the check here as well to preserve the original error type
+    await this.verifyCommandPreconditions(url, method);
+    return await super.command(url, method, body);
+  }
+
+  /**
+   * @param {string} url
+   * @param {string} method
+   * @returns {Promise<void>}
+   */
+  async verifyCommandPreconditions (url, method) {
     if (this.didInstrumentationExit) {
-      throw new errors.InvalidContextError(
-        `'${method} ${url}' cannot be proxied to UiAutomator2 server because ` +
-        'the instrumentation process is not running (probably crashed). ' +
-        'Check the server log and/or the logcat output for more details');
+      // commands sent while the recovery is in progress must fail fast
+      if (!this.recoverInstrumentation || this.isRecoveringInstrumentation) {
+        throw new errors.InvalidContextError(
+          `'${method} ${url}' cannot be proxied to UiAutomator2 server because ` +
+          'the instrumentation process is not running (probably crashed). ' +
+          'Check the server log and/or the logcat output for more details');
+      }
+      await this.recoverInstrumentation();
+    }
+    const elementId = toElementIdFromUrl(url);
+    if (elementId && this.staleElementIds.has(elementId)) {
+      throw new errors.StaleElementReferenceError(
+        `The element '${elementId}' has been located before the UiAutomator2 server crash ` +
+        `and does not exist anymore. Please find it again`);
+    }
+  }
+
+  /**
+   * Marks all elements that have been returned by the server so far as stale.
+   * This must be called once the server session is recreated.
+   */
+  invalidateKnownElements () {
+    for (const id of this.knownElementIds) {
+      addRecordedElementId(this.staleElementIds, id);
     }
-    return await super.proxyCommand(url, method, body);
+    this.knownElementIds.clear();
   }
 }
 
@@ -55,6 +252,39 @@ class UiAutomator2Server {
   /** @type {import('teen_process').SubProcess|null} */
   instrumentationProcess;
 
+  /** @type {import('appium-adb').LogEntry[]} */
+  instrumentationLogs;
+
+  /** @type {string} */
+  instrumentationTarget;
+
+  /** @type {import('@appium/types').StringRecord<string|number|boolean>} */
+  instrumentationArgs;
+
+  /** @type {string|undefined} */
+  instrumentationUser;
+
+  /** @type {boolean} */
+  crashRecovery;
+
+  /** @type {boolean} */
+  externalServer;
+
+  /** @type {import('@appium/types').StringRecord|null} */
+  sessionCaps;
+
+  /** @type {number} */
+  healthCheckInterval;
+
+  /** @type {ServerHealthCheck[]} */
+  healthHistory;
+
+  /** @type {NodeJS.Timeout|null} */
+  healthCheckTimer;
+
+  /** @type {((check: ServerHealthCheck) => void)|undefined} */
+  onHealthChange;
+
   /**
    *
    * @param {import('@appium/types').AppiumLogger} log
@@ -69,12 +299,24 @@ class UiAutomator2Server {
     }
     this.log = log;
     this.disableSuppressAccessibilityService = opts.disableSuppressAccessibilityService;
+    this.instrumentationTarget = opts.instrumentationRunner
+      ? `${SERVER_TEST_PACKAGE_ID}/${opts.instrumentationRunner}`
+      : INSTRUMENTATION_TARGET;
+    this.instrumentationArgs = opts.instrumentationArgs ?? {};
+    this.instrumentationUser = opts.instrumentationUser;
+    this.externalServer = !!opts.externalServer;
     const proxyOpts = {
       log,
       server: this.host,
       port: this.systemPort,
       keepAlive: true,
     };
+    if (opts.scheme) {
+      proxyOpts.scheme = opts.scheme;
+    }
+    if (opts.base) {
+      proxyOpts.base = opts.base;
+    }
     if (opts.readTimeout && opts.readTimeout > 0) {
       proxyOpts.timeout = opts.readTimeout;
     }
@@ -83,6 +325,21 @@ class UiAutomator2Server {
     this.proxyCommand = this.jwproxy.command.bind(this.jwproxy);
     this.jwproxy.didInstrumentationExit = false;
     this.instrumentationProcess = null;
+    this.instrumentationLogs = [];
+    // the driver does not control the lifecycle of an external server
+    this.crashRecovery = !!opts.crashRecovery && !this.externalServer;
+    this.getSettings = opts.getSettings;
+    this.sessionCaps = null;
+    this.healthCheckInterval = opts.healthCheckInterval && opts.healthCheckInterval > 0
+      ? opts.healthCheckInterval
+      : 0;
+    this.onHealthChange = opts.onHealthChange;
+    this.healthHistory = [];
+    this.healthCheckTimer = null;
+    if (this.crashRecovery) {
+      this.jwproxy.recoverInstrumentation = this.recoverSession.bind(this);
+    }
+    this.jwproxy.relocateStaleElement = opts.relocateStaleElement;
   }
 
   /**
@@ -154,11 +411,12 @@ class UiAutomator2Server {
   }
 
   /**
-   * Installs the apks on to the device or emulator.
+   * Works out whether server packages must be uninstalled and/or installed
+   * without changing anything on the device under test.
    *
-   * @param {number} installTimeout - Installation timeout
+   * @returns {Promise<ServerInstallationPlan>}
    */
-  async installServerApk (installTimeout = SERVER_INSTALL_RETRIES * 1000) {
+  async planServerInstallation () {
     const packagesInfo = await B.all(
       [
         {
@@ -176,6 +434,20 @@ class UiAutomator2Server {
     // Install must always follow uninstall. Also, perform the install if
     // any of server packages is not installed or is outdated
     const shouldInstallServerPackages = shouldUninstallServerPackages || this.shouldInstallServerPackages(packagesInfo);
+    return {packagesInfo, shouldUninstallServerPackages, shouldInstallServerPackages};
+  }
+
+  /**
+   * Installs the apks on to the device or emulator.
+   *
+   * @param {number} installTimeout - Installation timeout
+   */
+  async installServerApk (installTimeout = SERVER_INSTALL_RETRIES * 1000) {
+    const {
+      packagesInfo,
+      shouldUninstallServerPackages,
+      shouldInstallServerPackages,
+    } = await this.planServerInstallation();
     this.log.info(`Server packages are ${shouldInstallServerPackages ? '' : 'not '}going to be (re)installed`);
     if (shouldInstallServerPackages && shouldUninstallServerPackages) {
       this.log.info('Full packages reinstall is going to be performed');
@@ -223,9 +495,9 @@ class UiAutomator2Server {
           if (pmOutput.includes('Could not access the Package Manager')) {
             pmError = new Error(`Problem running Package Manager: ${pmOutput}`);
             pmOutput = ''; // remove output, so it is not printed below
-          } else if (pmOutput.includes(INSTRUMENTATION_TARGET)) {
+          } else if (pmOutput.includes(this.instrumentationTarget)) {
             pmOutput = ''; // remove output, so it is not printed below
-            this.log.debug(`Instrumentation target '${INSTRUMENTATION_TARGET}' is available`);
+            this.log.debug(`Instrumentation target '${this.instrumentationTarget}' is available`);
             isPmServiceAvailable = true;
           } else if (!pmError) {
             pmError = new Error('The instrumentation target is not listed by Package Manager');
@@ -238,7 +510,7 @@ class UiAutomator2Server {
       });
     } catch {
       // @ts-ignore It is ok if the attribute does not exist
-      this.log.error(`Unable to find instrumentation target '${INSTRUMENTATION_TARGET}': ${(pmError || {}).message}`);
+      this.log.error(`Unable to find instrumentation target '${this.instrumentationTarget}': ${(pmError || {}).message}`);
       if (pmOutput) {
         this.log.debug('Available targets:');
         for (const line of pmOutput.split('\n')) {
@@ -248,8 +520,19 @@ class UiAutomator2Server {
     }
   }
 
-  async startSession (caps) {
-    await this.cleanupAutomationLeftovers();
+  /**
+   * @param {import('@appium/types').StringRecord} caps
+   * @param {import('./startup-metrics').StartupStepMeasurer} [metrics] Optional measurer
+   * to record durations of the server startup steps
+   * @returns {Promise<void>}
+   */
+  async startSession (caps, metrics = NOOP_STEP_MEASURER) {
+    if (this.externalServer) {
+      await metrics.measure('statusCheck', () => this.verifyExternalServerStatus());
+      return await metrics.measure('sessionCreation', () => this.createServerSession(caps));
+    }
+
+    await metrics.measure('cleanup', () => this.cleanupAutomationLeftovers());
     if (caps.skipServerInstallation) {
       this.log.info(`'skipServerInstallation' is set. Attempting to use UIAutomator2 server from the device`);
     } else {
@@ -258,6 +541,18 @@ class UiAutomator2Server {
     }
 
     const timeout = caps.uiautomator2ServerLaunchTimeout || SERVER_LAUNCH_TIMEOUT;
+    await metrics.measure('instrumentation', () => this.launchInstrumentation(timeout));
+    await metrics.measure('sessionCreation', () => this.createServerSession(caps));
+  }
+
+  /**
+   * Starts the instrumentation process and waits until the server is online.
+   * The startup is retried if the instrumentation process unexpectedly exits.
+   *
+   * @param {number} timeout The maximum count of milliseconds to wait for the server
+   * @returns {Promise<void>}
+   */
+  async launchInstrumentation (timeout) {
     const timer = new timing.Timer().start();
     let retries = 0;
     const maxRetries = 2;
@@ -310,16 +605,170 @@ class UiAutomator2Server {
 
     this.log.debug(`The initialization of the instrumentation process took `
       + `${timer.getDuration().asMilliSeconds.toFixed(0)}ms`);
+  }
+
+  /**
+   * @param {import('@appium/types').StringRecord} caps
+   * @returns {Promise<void>}
+   */
+  async createServerSession (caps) {
     await this.jwproxy.command('/session', 'POST', {
       capabilities: {
         firstMatch: [caps],
         alwaysMatch: {},
       }
     });
+    this.sessionCaps = caps;
+    // settings only live in the server process, so they must be applied to each new session
+    const settings = this.getSettings ? await this.getSettings() : {};
+    if (!_.isEmpty(settings)) {
+      this.log.debug(`Applying settings to the new server session: ${JSON.stringify(settings)}`);
+      await this.jwproxy.command('/appium/settings', 'POST', {settings});
+    }
+    // this is a no-op if the watchdog has been already started before the session recovery
+    this.startHealthWatchdog();
+  }
+
+  /**
+   * Starts polling the server status in background if the health check interval is set
+   */
+  startHealthWatchdog () {
+    if (!this.healthCheckInterval || this.healthCheckTimer) {
+      return;
+    }
+    this.log.debug(`Checking the UiAutomator2 server health every ${this.healthCheckInterval}ms`);
+    const scheduleCheck = () => {
+      this.healthCheckTimer = setTimeout(async () => {
+        await this.checkHealth();
+        // the watchdog might have been stopped while the check was in progress
+        if (this.healthCheckTimer) {
+          scheduleCheck();
+        }
+      }, this.healthCheckInterval);
+      // the watchdog must not prevent the process from exiting
+      this.healthCheckTimer.unref();
+    };
+    scheduleCheck();
+  }
+
+  stopHealthWatchdog () {
+    if (this.healthCheckTimer) {
+      clearTimeout(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * Checks whether the server is responsive and records the result to the health history.
+   * The status is requested directly rather than via the proxy,
+   * so the check never triggers the crash recovery.
+   *
+   * @returns {Promise<ServerHealthCheck>}
+   */
+  async checkHealth () {
+    const timer = new timing.Timer().start();
+    /** @type {ServerHealthCheck} */
+    let check;
+    if (this.jwproxy.didInstrumentationExit) {
+      check = {
+        timestamp: Date.now(),
+        healthy: false,
+        error: 'The instrumentation process is not running',
+      };
+    } else {
+      try {
+        await axios({
+          url: `${this.jwproxy.scheme}://${this.host}:${this.systemPort}${this.jwproxy.base}/status`,
+          timeout: Math.min(this.healthCheckInterval || HEALTH_CHECK_TIMEOUT, HEALTH_CHECK_TIMEOUT),
+        });
+        check = {
+          timestamp: Date.now(),
+          healthy: true,
+          latencyMs: Math.round(timer.getDuration().asMilliSeconds),
+        };
+      } catch (e) {
+        check = {
+          timestamp: Date.now(),
+          healthy: false,
+          latencyMs: Math.round(timer.getDuration().asMilliSeconds),
+          error: `The server is not responding: ${e.message}`,
+        };
+      }
+    }
+    const previousCheck = _.last(this.healthHistory);
+    this.healthHistory.push(check);
+    if (this.healthHistory.length > MAX_HEALTH_HISTORY_ENTRIES) {
+      this.healthHistory.splice(0, this.healthHistory.length - MAX_HEALTH_HISTORY_ENTRIES);
+    }
+    if ((previousCheck?.healthy ?? true) !== check.healthy) {
+      if (check.healthy) {
+        this.log.info('The UiAutomator2 server is healthy again');
+      } else {
+        this.log.warn(`The UiAutomator2 server is unhealthy. ${check.error}`);
+      }
+      this.onHealthChange?.(check);
+    }
+    return check;
+  }
+
+  /**
+   * Makes sure the externally managed server is listening and responds to requests
+   *
+   * @returns {Promise<void>}
+   * @throws {Error} If the server is not reachable
+   */
+  async verifyExternalServerStatus () {
+    const serverUrl = `${this.jwproxy.scheme}://${this.host}:${this.systemPort}${this.jwproxy.base}`;
+    this.log.info(`Connecting to the already running UiAutomator2 server at '${serverUrl}'`);
+    try {
+      await this.jwproxy.command('/status', 'GET');
+    } catch (e) {
+      throw this.log.errorWithException(
+        `The UiAutomator2 server at '${serverUrl}' is not reachable. ` +
+        `Make sure it is running and the 'uiautomator2ServerUrl' capability value is correct. ` +
+        `Original error: ${e.message}`
+      );
+    }
+  }
+
+  /**
+   * Restarts the instrumentation process after it has unexpectedly exited,
+   * creates a new server session with the original capabilities and
+   * applies the actual driver settings to it.
+   *
+   * @returns {Promise<void>}
+   * @throws {Error} If the server session cannot be recovered
+   */
+  async recoverSession () {
+    if (!this.sessionCaps) {
+      throw new errors.InvalidContextError(
+        'The UiAutomator2 server session cannot be recovered because it has never been started');
+    }
+
+    this.log.warn('The instrumentation process has unexpectedly exited. ' +
+      'Trying to recover the UiAutomator2 server session');
+    const timer = new timing.Timer().start();
+    this.jwproxy.isRecoveringInstrumentation = true;
+    try {
+      await this.startSession(this.sessionCaps);
+    } catch (e) {
+      this.jwproxy.didInstrumentationExit = true;
+      throw new errors.InvalidContextError(
+        `The UiAutomator2 server session cannot be recovered after the instrumentation process crash. ` +
+        `Check the server log and/or the logcat output for more details. Original error: ${e.message}`);
+    } finally {
+      this.jwproxy.isRecoveringInstrumentation = false;
+    }
+    this.jwproxy.invalidateKnownElements();
+    this.log.info(`The UiAutomator2 server session has been successfully recovered ` +
+      `within ${timer.getDuration().asMilliSeconds.toFixed(0)}ms`);
   }
 
   async startInstrumentationProcess () {
     const cmd = ['am', 'instrument', '-w'];
+    if (!_.isNil(this.instrumentationUser)) {
+      cmd.push('--user', this.instrumentationUser);
+    }
     if (this.disableWindowAnimation) {
       cmd.push('--no-window-animation');
     }
@@ -328,18 +777,48 @@ class UiAutomator2Server {
     }
     // Disable Google analytics to prevent possible fatal exception
     cmd.push('-e', 'disableAnalytics', 'true');
-    cmd.push(INSTRUMENTATION_TARGET);
+    // Custom arguments go last, so they could override the default ones
+    for (const [key, value] of _.toPairs(this.instrumentationArgs)) {
+      cmd.push('-e', key, util.quote([`${value}`]));
+    }
+    cmd.push(this.instrumentationTarget);
     this.instrumentationProcess = this.adb.createSubProcess(['shell', ...cmd]);
     for (const streamName of ['stderr', 'stdout']) {
-      this.instrumentationProcess.on(`line-${streamName}`, (line) => this.log.debug(`[Instrumentation] ${line}`));
+      this.instrumentationProcess.on(`line-${streamName}`, (line) => this.recordInstrumentationLog(line));
     }
     this.instrumentationProcess.once('exit', (code, signal) => {
-      this.log.debug(`[Instrumentation] The process has exited with code ${code}, signal ${signal}`);
+      this.recordInstrumentationLog(`The process has exited with code ${code}, signal ${signal}`);
       this.jwproxy.didInstrumentationExit = true;
     });
     await this.instrumentationProcess.start(0);
   }
 
+  /**
+   * Writes the given instrumentation process output line to the log
+   * and keeps it in the bounded buffer of recent lines
+   *
+   * @param {string} message
+   */
+  recordInstrumentationLog (message) {
+    this.log.debug(`[Instrumentation] ${message}`);
+    this.instrumentationLogs.push({
+      timestamp: Date.now(),
+      level: 'ALL',
+      message,
+    });
+    if (this.instrumentationLogs.length > MAX_INSTRUMENTATION_LOG_ENTRIES) {
+      this.instrumentationLogs.splice(0, this.instrumentationLogs.length - MAX_INSTRUMENTATION_LOG_ENTRIES);
+    }
+  }
+
+  /**
+   * @returns {import('appium-adb').LogEntry[]} Recent output lines of the instrumentation process
+   * including lines of processes, which have already exited within the current session
+   */
+  getInstrumentationLogs () {
+    return [...this.instrumentationLogs];
+  }
+
   async stopInstrumentationProcess () {
     if (!this.instrumentationProcess) {
       return;
@@ -357,6 +836,13 @@ class UiAutomator2Server {
 
   async deleteSession () {
     this.log.debug('Deleting UiAutomator2 server session');
+    const statsSummary = this.jwproxy.stats.toSummary();
+    if (statsSummary) {
+      this.log.info(statsSummary);
+    }
+    // there is no point to recover the server if it is being stopped anyway
+    this.jwproxy.recoverInstrumentation = undefined;
+    this.stopHealthWatchdog();
     // rely on jwproxy's intelligence to know what we're talking about and
     // delete the current session
     try {
@@ -439,6 +925,59 @@ class UiAutomator2Server {
   }
 }
 
+// #region Internal Helpers
+
+/**
+ * @param {string} url
+ * @returns {string|undefined}
+ */
+function toElementIdFromUrl (url) {
+  return ELEMENT_ID_IN_URL_PATTERN.exec(url)?.[1];
+}
+
+/**
+ * @param {any} e
+ * @returns {boolean}
+ */
+function isStaleElementError (e) {
+  const err = toActualError(e);
+  return isErrorType(err, errors.StaleElementReferenceError);
+}
+
+/**
+ * @param {any} value The value of a find element(s) response
+ * @returns {string[]}
+ */
+function toElementIds (value) {
+  if (_.isArray(value)) {
+    return value.flatMap(toElementIds);
+  }
+  if (!_.isPlainObject(value)) {
+    return [];
+  }
+  const id = util.unwrapElement(value);
+  return _.isString(id) ? [id] : [];
+}
+
+/**
+ * Adds the given element identifier to the set and forgets the oldest
+ * identifiers if the set has grown over the limit
+ *
+ * @param {Set<string>} elementIds
+ * @param {string} id
+ */
+function addRecordedElementId (elementIds, id) {
+  // the most recently returned elements are kept the longest
+  elementIds.delete(id);
+  elementIds.add(id);
+  while (elementIds.size > MAX_RECORDED_ELEMENT_IDS) {
+    const [oldestId] = elementIds;
+    elementIds.delete(oldestId);
+  }
+}
+
+// #endregion
+
 export { UiAutomator2Server, INSTRUMENTATION_TARGET, SERVER_PACKAGE_ID, SERVER_TEST_PACKAGE_ID };
 export default UiAutomator2Server;
 
@@ -452,5 +991,36 @@ export default UiAutomator2Server;
  * @property {boolean} disableWindowAnimation
  * @property {number} [readTimeout]
  * @property {boolean} [disableSuppressAccessibilityService]
+ * @property {import('@appium/types').StringRecord<string|number|boolean>} [instrumentationArgs]
+ * Extra arguments to pass to the instrumentation process as `-e key value` pairs
+ * @property {string} [instrumentationRunner] The full name of a custom instrumentation runner class
+ * @property {string} [instrumentationUser] The identifier of the user to run the instrumentation for
  * @property {string} [apk]
+ * @property {string} [scheme] The scheme of the server URL. `http` by default
+ * @property {string} [base] The base path of the server URL. Empty by default
+ * @property {boolean} [externalServer] Whether the server is already running and its lifecycle
+ * is managed outside of the driver
+ * @property {boolean} [crashRecovery] Whether to transparently recover the server session
+ * if the instrumentation process unexpectedly exits
+ * @property {() => import('@appium/types').StringRecord|Promise<import('@appium/types').StringRecord>} [getSettings]
+ * The getter of settings to apply to each newly created server session, for example
+ * the one created after the instrumentation process crash
+ * @property {number} [healthCheckInterval] The interval in milliseconds between server health checks.
+ * The health watchdog is disabled if the value is not set or is not positive
+ * @property {(check: ServerHealthCheck) => void} [onHealthChange] The listener to be called
+ * whenever the server becomes unhealthy or healthy again
+ * @property {(elementId: string) => Promise<string|null>} [relocateStaleElement] The function to locate
+ * the element again if a proxied command has failed because the element reference is stale.
+ * It is expected to return the new element identifier or null if the element cannot be located
+ */
+
+/**
+ * @typedef {import('./commands/types').ServerHealthCheck} ServerHealthCheck
+ */
+
+/**
+ * @typedef {Object} ServerInstallationPlan
+ * @property {PackageInfo[]} packagesInfo Install states of server packages
+ * @property {boolean} shouldUninstallServerPackages
+ * @property {boolean} shouldInstallServerPackages
  */
\ No newline at end of file
@@ -0,0 +1,87 @@
+import sinon from 'sinon';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+
+const SOURCE = `<?xml version="1.0" encoding="UTF-8"?>
+<hierarchy index="0" rotation="0">
+  <android.widget.FrameLayout index="0" class="android.widget.FrameLayout" bounds="[0,0][1080,2208]" displayed="true">
+    <android.widget.LinearLayout index="0" class="android.widget.LinearLayout" clickable="true" bounds="[0,0][1080,200]" displayed="true">
+      <android.widget.TextView index="0" class="android.widget.TextView" text="Settings" bounds="[0,0][1080,200]" displayed="true"/>
+    </android.widget.LinearLayout>
+    <android.widget.ImageButton index="1" class="android.widget.ImageButton" clickable="true" bounds="[0,200][200,400]" displayed="true"/>
+    <android.widget.ImageButton index="2" class="android.widget.ImageButton" clickable="true" content-desc="Delete" bounds="[0,400][60,460]" displayed="true"/>
+    <android.widget.ImageButton index="3" class="android.widget.ImageButton" clickable="true" content-desc="Delete" bounds="[0,500][200,700]" displayed="true"/>
+    <android.view.View index="4" class="android.view.View" focusable="true" bounds="[0,700][1080,900]" displayed="true"/>
+    <android.widget.Button index="5" class="android.widget.Button" clickable="true" bounds="[0,900][10,910]" displayed="false"/>
+  </android.widget.FrameLayout>
+</hierarchy>`;
+
+describe('Accessibility', function () {
+  let driver;
+  let chai;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+    sandbox.stub(driver, 'getPageSource').resolves(SOURCE);
+    sandbox.stub(driver, 'getDisplayDensity').resolves(320);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  describe('mobileAccessibilityAudit', function () {
+    it('should report accessibility issues of visible elements', async function () {
+      const {density, findings} = await driver.mobileAccessibilityAudit();
+      density.should.eql(320);
+      findings.map(({check, xpath, bounds}) => ({check, xpath, bounds})).should.eql([
+        {
+          check: 'missingLabel',
+          xpath: '/hierarchy/android.widget.FrameLayout[1]/android.widget.ImageButton[1]',
+          bounds: '[0,200][200,400]',
+        },
+        {
+          check: 'smallTouchTarget',
+          xpath: '/hierarchy/android.widget.FrameLayout[1]/android.widget.ImageButton[2]',
+          bounds: '[0,400][60,460]',
+        },
+        {
+          check: 'duplicateDescription',
+          xpath: '/hierarchy/android.widget.FrameLayout[1]/android.widget.ImageButton[2]',
+          bounds: '[0,400][60,460]',
+        },
+        {
+          check: 'duplicateDescription',
+          xpath: '/hierarchy/android.widget.FrameLayout[1]/android.widget.ImageButton[3]',
+          bounds: '[0,500][200,700]',
+        },
+        {
+          check: 'unlabeledFocusable',
+          xpath: '/hierarchy/android.widget.FrameLayout[1]/android.view.View[1]',
+          bounds: '[0,700][1080,900]',
+        },
+      ]);
+      findings[1].message.should.include('30x30dp');
+    });
+    it('should only perform the requested checks', async function () {
+      const {findings} = await driver.mobileAccessibilityAudit({
+        checks: ['smallTouchTarget'],
+        minTouchTargetSize: 120,
+      });
+      findings.map(({bounds}) => bounds).should.eql(['[0,0][1080,200]', '[0,200][200,400]', '[0,400][60,460]', '[0,500][200,700]']);
+    });
+    it('should validate arguments', async function () {
+      await driver.mobileAccessibilityAudit({checks: ['contrast']}).should.be.rejectedWith(/'checks' must be/);
+      await driver.mobileAccessibilityAudit({minTouchTargetSize: 0}).should.be.rejectedWith(/'minTouchTargetSize'/);
+      driver.getPageSource.called.should.be.false;
+    });
+  });
+});
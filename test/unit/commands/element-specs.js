@@ -0,0 +1,81 @@
+import sinon from 'sinon';
+import {errors} from 'appium/driver';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+
+
+describe('Element', function () {
+  let driver;
+  let chai;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  describe('mobileGetElementsProperties', function () {
+    it('should retrieve properties of multiple elements', async function () {
+      sandbox.stub(driver, 'getText').callsFake(async (id) => `text ${id}`);
+      sandbox.stub(driver, 'getElementRect').resolves({x: 0, y: 0, width: 10, height: 10});
+      sandbox.stub(driver, 'getAttribute').callsFake(async (name, id) => name === 'displayed' ? 'true' : `${name} ${id}`);
+      const result = await driver.mobileGetElementsProperties({
+        elements: ['1', {ELEMENT: '2'}],
+        properties: ['text', 'rect', 'displayed', 'content-desc'],
+      });
+      result.should.eql({
+        1: {
+          properties: {
+            text: 'text 1',
+            rect: {x: 0, y: 0, width: 10, height: 10},
+            displayed: true,
+            'content-desc': 'content-desc 1',
+          },
+        },
+        2: {
+          properties: {
+            text: 'text 2',
+            rect: {x: 0, y: 0, width: 10, height: 10},
+            displayed: true,
+            'content-desc': 'content-desc 2',
+          },
+        },
+      });
+    });
+    it('should retrieve attributes named as inherited object keys', async function () {
+      sandbox.stub(driver, 'getAttribute').callsFake(async (name, id) => `${name} ${id}`);
+      (await driver.mobileGetElementsProperties({elements: ['1'], properties: ['constructor', 'toString']}))
+        .should.eql({1: {properties: {constructor: 'constructor 1', toString: 'toString 1'}}});
+    });
+    it('should report element errors inline', async function () {
+      sandbox.stub(driver, 'getText').callsFake(async (id) => {
+        if (id === '2') {
+          throw new errors.StaleElementReferenceError();
+        }
+        return 'foo';
+      });
+      const result = await driver.mobileGetElementsProperties({elements: ['1', '2'], properties: ['text']});
+      result['1'].should.eql({properties: {text: 'foo'}});
+      result['2'].properties.should.eql({});
+      result['2'].error.error.should.eql('stale element reference');
+    });
+    it('should validate arguments', async function () {
+      await driver.mobileGetElementsProperties({elements: [], properties: ['text']})
+        .should.be.rejectedWith(/'elements' must be a non-empty array/);
+      await driver.mobileGetElementsProperties({elements: ['1'], properties: 'text'})
+        .should.be.rejectedWith(/'properties' must be a non-empty array/);
+      await driver.mobileGetElementsProperties({elements: [{}], properties: ['text']})
+        .should.be.rejectedWith(/'elements' must only contain element identifiers/);
+    });
+  });
+});
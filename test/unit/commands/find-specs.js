@@ -0,0 +1,294 @@
+import sinon from 'sinon';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+
+const SOURCE = `<?xml version="1.0" encoding="UTF-8"?>
+<hierarchy index="0" rotation="0" width="1080" height="2208">
+  <android.widget.ListView index="0" class="android.widget.ListView" resource-id="io.appium.android.apis:id/list" bounds="[0,100][1080,1100]">
+    <android.widget.TextView index="0" class="android.widget.TextView" text="First" bounds="[0,100][1080,200]"/>
+    <android.widget.TextView index="1" class="android.widget.TextView" text="Second" bounds="[0,200][1080,300]"/>
+  </android.widget.ListView>
+</hierarchy>`;
+
+
+describe('Find', function () {
+  let driver;
+  let chai;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+    driver.opts = {appPackage: 'io.appium.android.apis'};
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  describe('snapshot lookup', function () {
+    beforeEach(async function () {
+      driver.uiautomator2 = {
+        jwproxy: {
+          command: sandbox.stub().callsFake(async (url) => url === '/source' ? SOURCE : null),
+        },
+      };
+      await driver.settings.update({enableSnapshotLookup: true});
+    });
+
+    it('should look up elements locally', async function () {
+      const els = await driver.findElOrEls('xpath', '//android.widget.TextView', true);
+      els.should.have.length(2);
+      await driver.findElOrEls('css selector', '#list > *:last-child', false);
+      driver.uiautomator2.jwproxy.command.calledOnceWith('/source', 'GET').should.be.true;
+      (await driver.getText(els[1].ELEMENT)).should.eql('Second');
+      (await driver.getElementRect(els[1].ELEMENT)).should.eql({x: 0, y: 200, width: 1080, height: 100});
+      (await driver.getAttribute('className', els[1].ELEMENT)).should.eql('android.widget.TextView');
+    });
+    it('should look up elements inside of snapshot elements', async function () {
+      const listEl = await driver.findElOrEls('xpath', '//android.widget.ListView', false);
+      const item = await driver.findElOrEls('xpath', './*[1]', false, listEl.ELEMENT);
+      (await driver.getText(item.ELEMENT)).should.eql('First');
+      await driver.findElOrEls('id', 'foo', false, listEl.ELEMENT)
+        .should.be.rejectedWith(/Only 'xpath' and 'css selector' strategies are supported/);
+    });
+    it('should send lookups inside of server elements to the server', async function () {
+      await driver.doFindElementOrEls({strategy: 'xpath', selector: './*[1]', context: '123', multiple: false});
+      driver.uiautomator2.jwproxy.command.calledOnceWith('/element', 'POST').should.be.true;
+      driver.uiautomator2.jwproxy.command.firstCall.args[2].should.include({context: '123'});
+      chai.expect(driver._lookupSnapshot).to.be.undefined;
+    });
+    it('should fetch a new snapshot if nothing is found', async function () {
+      await driver.implicitWait(0);
+      await driver.findElOrEls('xpath', '//android.widget.Button', false)
+        .should.be.rejectedWith(/could not be located/);
+      await driver.findElOrEls('xpath', '//android.widget.Button', true).should.eventually.be.empty;
+      driver.uiautomator2.jwproxy.command.callCount.should.eql(2);
+    });
+    it('should drop the snapshot after mutating commands', async function () {
+      driver.newCommandTimeoutMs = 0;
+      const item = await driver.findElOrEls('xpath', '//android.widget.TextView', false);
+      await driver.executeCommand('getText', item.ELEMENT);
+      driver._lookupSnapshot.should.exist;
+      await driver.executeCommand('click', item.ELEMENT);
+      driver.uiautomator2.jwproxy.command.lastCall.args.should.eql([
+        '/appium/gestures/click', 'POST', {origin: undefined, offset: {x: 540, y: 150}},
+      ]);
+      chai.expect(driver._lookupSnapshot).to.be.undefined;
+      await driver.executeCommand('getText', item.ELEMENT).should.be.rejectedWith(/not actual anymore/);
+      driver._snapshotElements.size.should.eql(0);
+    });
+    it('should reject commands not supported for snapshot elements', async function () {
+      driver.newCommandTimeoutMs = 0;
+      const item = await driver.findElOrEls('xpath', '//android.widget.TextView', false);
+      await driver.executeCommand('clear', item.ELEMENT)
+        .should.be.rejectedWith(/'clear' command cannot be applied/);
+      await driver.executeCommand('setValue', 'foo', item.ELEMENT)
+        .should.be.rejectedWith(/'setValue' command cannot be applied/);
+      driver.uiautomator2.jwproxy.command.calledOnce.should.be.true;
+      driver._lookupSnapshot.should.exist;
+    });
+    it('should not reject commands with arguments only looking like snapshot elements', async function () {
+      driver.newCommandTimeoutMs = 0;
+      await driver.settings.update({enableSnapshotLookup: false});
+      driver.uiautomator2.jwproxy.command = sandbox.stub().resolves({ELEMENT: '1'});
+      await driver.executeCommand('findElement', 'accessibility id', 'snapshot-button');
+      driver.uiautomator2.jwproxy.command.calledWith('/element', 'POST').should.be.true;
+      await driver.executeCommand('setValue', 'snapshot-1', '1');
+      driver.uiautomator2.jwproxy.command.calledWith('/element/1/value', 'POST').should.be.true;
+    });
+    it('should not proxy requests to snapshot elements', async function () {
+      const item = await driver.findElOrEls('xpath', '//android.widget.TextView', false);
+      driver.proxyRouteIsAvoided('1', 'GET', `/session/1/element/${item.ELEMENT}/text`).should.be.true;
+      driver.proxyRouteIsAvoided('1', 'GET', '/session/1/element/123/text').should.be.false;
+    });
+  });
+
+  describe('string resource lookup', function () {
+    beforeEach(function () {
+      driver.adb = {getDeviceLanguage: sandbox.stub().resolves('de')};
+      sandbox.stub(driver, 'getStrings').resolves({
+        login_button_title: 'Anmelden',
+        quoted: `Sag "Hallo"`,
+      });
+      driver.uiautomator2 = {
+        jwproxy: {
+          command: sandbox.stub().resolves({ELEMENT: '1'}),
+        },
+      };
+    });
+
+    it('should find elements by the resolved string value', async function () {
+      await driver.findElOrEls('-android string resource', 'login_button_title', false);
+      await driver.findElOrEls('-android string resource', 'login_button_title', true);
+      driver.uiautomator2.jwproxy.command.firstCall.args.should.eql(['/element', 'POST', {
+        strategy: 'xpath',
+        selector: '//*[@text="Anmelden" or @content-desc="Anmelden"]',
+        context: '',
+        multiple: false,
+      }]);
+      driver.uiautomator2.jwproxy.command.secondCall.args[0].should.eql('/elements');
+      driver.getStrings.calledOnceWith('de').should.be.true;
+    });
+    it('should quote string values', async function () {
+      await driver.findElOrEls('-android string resource', 'quoted', false);
+      driver.uiautomator2.jwproxy.command.firstCall.args[2].selector
+        .should.eql(`//*[@text='Sag "Hallo"' or @content-desc='Sag "Hallo"']`);
+    });
+    it('should cache strings per package and device language', async function () {
+      await driver.findElOrEls('-android string resource', 'login_button_title', false);
+      driver.opts.appPackage = 'io.appium.other';
+      await driver.findElOrEls('-android string resource', 'login_button_title', false);
+      await driver.findElOrEls('-android string resource', 'login_button_title', false);
+      driver.adb.getDeviceLanguage.calledThrice.should.be.true;
+      driver.getStrings.calledTwice.should.be.true;
+    });
+    it('should follow device language changes', async function () {
+      await driver.findElOrEls('-android string resource', 'login_button_title', false);
+      driver.adb.getDeviceLanguage.resolves('fr');
+      await driver.findElOrEls('-android string resource', 'login_button_title', false);
+      driver.getStrings.secondCall.args.should.eql(['fr']);
+    });
+    it('should not modify lookup params', async function () {
+      const params = {strategy: '-android string resource', selector: 'login_button_title', context: '', multiple: false};
+      await driver.doFindElementOrEls(params);
+      params.should.eql({strategy: '-android string resource', selector: 'login_button_title', context: '', multiple: false});
+    });
+    it('should translate string resource locators without touching the device', async function () {
+      (await driver.mobileTranslateSelector({strategy: '-android string resource', selector: 'login_button_title'}))
+        .should.eql({
+          valid: true,
+          strategy: 'xpath',
+          selector: `//*[@text=<resolved at runtime from the 'login_button_title' string resource> ` +
+            `or @content-desc=<resolved at runtime from the 'login_button_title' string resource>]`,
+          endpoint: 'POST /element',
+          rewritten: true,
+        });
+      driver.adb.getDeviceLanguage.called.should.be.false;
+      driver.getStrings.called.should.be.false;
+    });
+    it('should reject unknown string resources', async function () {
+      await driver.findElOrEls('-android string resource', 'missing', false)
+        .should.be.rejectedWith(/no string resource named 'missing' for the 'de' language/);
+      driver.uiautomator2.jwproxy.command.called.should.be.false;
+    });
+  });
+
+  describe('stale element recovery', function () {
+    let elementIds;
+
+    beforeEach(async function () {
+      elementIds = ['1', '2'];
+      driver.uiautomator2 = {
+        jwproxy: {
+          command: sandbox.stub().callsFake(async (url) => url === '/elements'
+            ? elementIds.map((ELEMENT) => ({ELEMENT}))
+            : {ELEMENT: elementIds[0]}),
+        },
+      };
+      await driver.settings.update({enableStaleElementRecovery: true});
+    });
+
+    it('should relocate elements using their original locators', async function () {
+      await driver.findElOrEls('id', 'row', true);
+      elementIds = ['3', '4'];
+      (await driver.relocateStaleElement('2')).should.eql('4');
+      driver.uiautomator2.jwproxy.command.lastCall.args.should.eql(['/elements', 'POST', {
+        strategy: 'id',
+        selector: 'row',
+        context: '',
+        multiple: true,
+      }]);
+    });
+    it('should not relocate elements if the match index is out of range', async function () {
+      await driver.findElOrEls('id', 'row', true);
+      elementIds = ['3'];
+      chai.expect(await driver.relocateStaleElement('2')).to.be.null;
+    });
+    it('should not relocate unknown elements or if the setting is disabled', async function () {
+      await driver.findElOrEls('id', 'row', false);
+      chai.expect(await driver.relocateStaleElement('5')).to.be.null;
+      await driver.settings.update({enableStaleElementRecovery: false});
+      chai.expect(await driver.relocateStaleElement('1')).to.be.null;
+      driver.uiautomator2.jwproxy.command.calledOnce.should.be.true;
+    });
+  });
+
+  describe('mobileTranslateSelector', function () {
+    it('should translate css selectors', async function () {
+      (await driver.mobileTranslateSelector({strategy: 'css selector', selector: '#foo', multiple: true}))
+        .should.eql({
+          valid: true,
+          strategy: '-android uiautomator',
+          selector: 'new UiSelector().resourceId("io.appium.android.apis:id/foo")',
+          endpoint: 'POST /elements',
+          rewritten: true,
+        });
+    });
+    it('should translate css selectors to xpath if UiSelector cannot express them', async function () {
+      (await driver.mobileTranslateSelector({strategy: 'css selector', selector: '#foo:last-child'}))
+        .should.eql({
+          valid: true,
+          strategy: 'xpath',
+          selector: '//*[@resource-id="io.appium.android.apis:id/foo"][not(following-sibling::*)]',
+          endpoint: 'POST /element',
+          rewritten: true,
+        });
+    });
+    it('should translate magic xpath selectors', async function () {
+      const {endpoint, rewritten} = await driver.mobileTranslateSelector({
+        strategy: 'xpath', selector: '/*[@firstVisible="true"]',
+      });
+      endpoint.should.eql('GET /appium/element/:elementId/first_visible');
+      rewritten.should.be.true;
+    });
+    it('should keep natively supported selectors as is', async function () {
+      (await driver.mobileTranslateSelector({strategy: 'accessibility id', selector: 'foo'}))
+        .should.eql({
+          valid: true,
+          strategy: 'accessibility id',
+          selector: 'foo',
+          endpoint: 'POST /element',
+          rewritten: false,
+        });
+    });
+    it('should report the position of syntax errors', async function () {
+      const {valid, error, position} = await driver.mobileTranslateSelector({
+        strategy: 'css selector', selector: "*[text='foo]",
+      });
+      valid.should.be.false;
+      error.should.include('Invalid CSS selector');
+      position.should.be.a('number');
+    });
+    it('should report xpath syntax errors', async function () {
+      for (const selector of ['//*[', '//*[@text="foo" and ]', '//*[@text="foo]']) {
+        const {valid, error, position} = await driver.mobileTranslateSelector({strategy: 'xpath', selector});
+        valid.should.be.false;
+        error.should.include('Invalid XPath selector');
+        chai.expect(position).to.be.null;
+      }
+      (await driver.mobileTranslateSelector({strategy: 'xpath', selector: '//*[@text="foo"][1]'}))
+        .valid.should.be.true;
+    });
+    it('should report unbalanced UiSelector expressions', async function () {
+      (await driver.mobileTranslateSelector({strategy: '-android uiautomator', selector: 'new UiSelector(.text("a(")'}))
+        .should.include({valid: false, position: 14});
+      (await driver.mobileTranslateSelector({strategy: '-android uiautomator', selector: 'new UiSelector().text("a)'}))
+        .should.include({valid: false, position: 22});
+      (await driver.mobileTranslateSelector({strategy: '-android uiautomator', selector: 'new UiSelector().text("a(")'}))
+        .valid.should.be.true;
+    });
+    it('should report unsupported selectors', async function () {
+      (await driver.mobileTranslateSelector({strategy: 'css selector', selector: '*[foo=bar]'}))
+        .should.include({valid: false, position: null});
+      (await driver.mobileTranslateSelector({strategy: 'name', selector: 'foo'}))
+        .error.should.include(`'name' is not supported`);
+    });
+  });
+});
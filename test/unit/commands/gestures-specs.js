@@ -0,0 +1,75 @@
+import sinon from 'sinon';
+import {errors} from 'appium/driver';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+
+
+describe('Gestures', function () {
+  let driver;
+  let chai;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+    sandbox.stub(driver, 'mobileScrollGesture').resolves(true);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  describe('mobileScrollToElement', function () {
+    it('should scroll until the element becomes visible', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls')
+        .onFirstCall().resolves([])
+        .onSecondCall().rejects(new errors.StaleElementReferenceError())
+        .resolves([{ELEMENT: '1'}, {ELEMENT: '2'}]);
+      sandbox.stub(driver, 'elementDisplayed').callsFake(async (id) => id === '2');
+      (await driver.mobileScrollToElement({
+        strategy: 'xpath', selector: '//*[@text="Item 50"]', elementId: '123', direction: 'up',
+      })).should.eql({ELEMENT: '2'});
+      driver.mobileScrollGesture.callCount.should.eql(2);
+      driver.mobileScrollGesture.firstCall.args[0].should.include({elementId: '123', direction: 'up', percent: 0.7});
+    });
+    it('should not scroll if the element is already visible', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls').resolves([{ELEMENT: '1'}]);
+      sandbox.stub(driver, 'elementDisplayed').resolves(true);
+      (await driver.mobileScrollToElement({strategy: 'id', selector: 'foo', elementId: '123'}))
+        .should.eql({ELEMENT: '1'});
+      driver.mobileScrollGesture.called.should.be.false;
+    });
+    it('should stop once the content cannot be scrolled any further', async function () {
+      driver.mobileScrollGesture.onSecondCall().resolves(false);
+      sandbox.stub(driver, 'doFindElementOrEls').resolves([]);
+      await driver.mobileScrollToElement({
+        strategy: 'id', selector: 'foo', left: 0, top: 0, width: 100, height: 100,
+      }).should.be.rejectedWith(errors.NoSuchElementError, /end of the content has been reached after 2 swipe/);
+      driver.mobileScrollGesture.calledTwice.should.be.true;
+      driver.doFindElementOrEls.calledThrice.should.be.true;
+    });
+    it('should stop after the maximum number of swipes', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls').resolves([]);
+      await driver.mobileScrollToElement({strategy: 'id', selector: 'foo', elementId: '123', maxSwipes: 3})
+        .should.be.rejectedWith(errors.NoSuchElementError, /not become visible after 3 swipe/);
+      driver.mobileScrollGesture.callCount.should.eql(3);
+    });
+    it('should validate arguments', async function () {
+      await driver.mobileScrollToElement({strategy: 'id', selector: 'foo'})
+        .should.be.rejectedWith(/'elementId' of the scrollable container or 'left'/);
+      await driver.mobileScrollToElement({strategy: 'id', selector: 'foo', elementId: '1', direction: 'back'})
+        .should.be.rejectedWith(/'direction' must be one of/);
+      await driver.mobileScrollToElement({strategy: 'id', selector: 'foo', elementId: '1', maxSwipes: -1})
+        .should.be.rejectedWith(/'maxSwipes'/);
+      await driver.mobileScrollToElement({strategy: 'name', selector: 'foo', elementId: '1'})
+        .should.be.rejectedWith(/not supported/);
+      driver.mobileScrollGesture.called.should.be.false;
+    });
+  });
+});
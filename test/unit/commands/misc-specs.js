@@ -0,0 +1,79 @@
+import sinon from 'sinon';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+
+/**
+ * @param {string} clock
+ * @param {string} [progress]
+ * @returns {string}
+ */
+function toSource(clock, progress = '0') {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<hierarchy index="0" rotation="0">
+  <android.widget.TextView index="0" resource-id="android:id/clock" text="${clock}"/>
+  <android.widget.ProgressBar index="1" text="${progress}"/>
+</hierarchy>`;
+}
+
+describe('Misc', function () {
+  let driver;
+  let chai;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  describe('mobileWaitForStableUi', function () {
+    it('should wait until the page source stops changing', async function () {
+      sandbox.stub(driver, 'getPageSource')
+        .onFirstCall().resolves(toSource('10:00', '10'))
+        .onSecondCall().resolves(toSource('10:00', '50'))
+        .resolves(toSource('10:00', '100'));
+      const {stable, samples} = await driver.mobileWaitForStableUi({quietPeriod: 0, interval: 1});
+      stable.should.be.true;
+      samples.should.eql(4);
+    });
+    it('should ignore volatile attributes and elements', async function () {
+      const getPageSource = sandbox.stub(driver, 'getPageSource');
+      for (let i = 0; i < 10; i++) {
+        getPageSource.onCall(i).resolves(toSource(`10:0${i}`, String(i)));
+      }
+      (await driver.mobileWaitForStableUi({
+        quietPeriod: 0,
+        interval: 1,
+        ignoredAttributes: ['text'],
+      })).samples.should.eql(2);
+      (await driver.mobileWaitForStableUi({
+        quietPeriod: 0,
+        interval: 1,
+        ignoredElements: '//*[@resource-id="android:id/clock"] | //android.widget.ProgressBar',
+      })).samples.should.eql(2);
+    });
+    it('should report unstable UI on timeout', async function () {
+      let counter = 0;
+      sandbox.stub(driver, 'getPageSource').callsFake(async () => toSource(String(counter++)));
+      const {stable, samples, stableForMs} = await driver.mobileWaitForStableUi({timeout: 20, interval: 5});
+      stable.should.be.false;
+      samples.should.be.above(1);
+      stableForMs.should.eql(0);
+    });
+    it('should validate arguments', async function () {
+      sandbox.stub(driver, 'getPageSource').resolves(toSource('10:00'));
+      await driver.mobileWaitForStableUi({quietPeriod: -1}).should.be.rejectedWith(/'quietPeriod'/);
+      await driver.mobileWaitForStableUi({ignoredAttributes: 'text'}).should.be.rejectedWith(/'ignoredAttributes'/);
+      await driver.mobileWaitForStableUi({ignoredElements: '//*['}).should.be.rejectedWith(/not a valid XPath/);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import sinon from 'sinon';
+import _ from 'lodash';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+import {UIAUTOMATOR2_SETTINGS_CONSTRAINTS} from '../../../lib/constraints';
+
+// Settings supported by io.appium.uiautomator2.model.settings.Settings of the bundled server v7.7.1
+const SERVER_SETTING_NAMES = [
+  'actionAcknowledgmentTimeout',
+  'allowInvisibleElements',
+  'ignoreUnimportantViews',
+  'currentDisplayId',
+  'disableIdLocatorAutocompletion',
+  'elementResponseAttributes',
+  'enableMultiWindows',
+  'enableNotificationListener',
+  'enableTopmostWindowFromActivePackage',
+  'enforceXPath1',
+  'includeA11yActionsInPageSource',
+  'includeExtrasInPageSource',
+  'keyInjectionDelay',
+  'limitXPathContextScope',
+  'mjpegBilinearFiltering',
+  'mjpegScalingFactor',
+  'mjpegServerFramerate',
+  'mjpegServerPort',
+  'mjpegServerScreenshotQuality',
+  'normalizeTagNames',
+  'scrollAcknowledgmentTimeout',
+  'serverPort',
+  'shouldUseCompactResponses',
+  'shutdownOnPowerDisconnect',
+  'simpleBoundsCalculation',
+  'snapshotMaxDepth',
+  'trackScrollEvents',
+  'useResourcesForOrientationDetection',
+  'waitForIdleTimeout',
+  'waitForSelectorTimeout',
+  'wakeLockTimeout',
+];
+const DRIVER_SETTING_NAMES = [
+  'enableSnapshotLookup',
+  'enableStaleElementRecovery',
+];
+const IMAGES_PLUGIN_SETTING_NAMES = [
+  'imageMatchThreshold',
+  'fixImageFindScreenshotDims',
+  'fixImageTemplateSize',
+  'fixImageTemplateScale',
+  'defaultImageTemplateScale',
+  'checkForImageElementStaleness',
+  'autoUpdateImageElementPosition',
+  'imageElementTapStrategy',
+  'getMatchedImageResult',
+];
+
+
+describe('Settings', function () {
+  let driver;
+  let chai;
+  let serverSettings;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+    serverSettings = {waitForIdleTimeout: 10000};
+    driver.uiautomator2 = {
+      jwproxy: {
+        command: sandbox.stub().callsFake(async (url, method, body) => {
+          if (method === 'GET') {
+            return {...serverSettings};
+          }
+          Object.assign(serverSettings, body.settings);
+        }),
+      },
+    };
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  describe('UIAUTOMATOR2_SETTINGS_CONSTRAINTS', function () {
+    it('should describe every setting supported by the server, the driver and the images plugin', function () {
+      _.sortBy(_.keys(UIAUTOMATOR2_SETTINGS_CONSTRAINTS)).should.eql(_.sortBy([
+        ...SERVER_SETTING_NAMES,
+        ...DRIVER_SETTING_NAMES,
+        ...IMAGES_PLUGIN_SETTING_NAMES,
+      ]));
+    });
+  });
+
+  describe('updateSettings', function () {
+    it('should forward unknown settings to the server', async function () {
+      await driver.updateSettings({customServerSetting: 1, waitForIdleTimeout: 0});
+      serverSettings.should.eql({customServerSetting: 1, waitForIdleTimeout: 0});
+    });
+    it('should reject settings of a wrong type', async function () {
+      await driver.updateSettings({enforceXPath1: 'yes'}).should.be.rejectedWith(/'enforceXPath1'/);
+    });
+    it('should reject settings out of range', async function () {
+      await driver.updateSettings({snapshotMaxDepth: 501}).should.be.rejectedWith(/1\.\.500/);
+      await driver.updateSettings({waitForIdleTimeout: -1}).should.be.rejectedWith(/waitForIdleTimeout/);
+    });
+    it('should validate the current display identifier', async function () {
+      await driver.updateSettings({currentDisplayId: 1, includeA11yActionsInPageSource: true});
+      serverSettings.should.include({currentDisplayId: 1, includeA11yActionsInPageSource: true});
+      await driver.updateSettings({currentDisplayId: -1}).should.be.rejectedWith(/currentDisplayId/);
+    });
+    it('should apply valid settings', async function () {
+      await driver.updateSettings({waitForIdleTimeout: 0, enforceXPath1: true});
+      serverSettings.should.eql({waitForIdleTimeout: 0, enforceXPath1: true});
+    });
+    it('should only remember explicitly applied settings', async function () {
+      driver._appliedSettings = {enforceXPath1: true};
+      await driver.updateSettings({waitForIdleTimeout: 0});
+      await driver.updateSettings({enforceXPath1: false});
+      driver._appliedSettings.should.eql({waitForIdleTimeout: 0, enforceXPath1: false});
+      driver.settings.getSettings().should.include({ignoreUnimportantViews: false});
+    });
+  });
+
+  describe('mobilePushSettings/mobilePopSettings', function () {
+    it('should restore nested settings snapshots', async function () {
+      await driver.mobilePushSettings({settings: {waitForIdleTimeout: 100}});
+      await driver.mobilePushSettings({settings: {waitForIdleTimeout: 0, allowInvisibleElements: true}});
+      serverSettings.waitForIdleTimeout.should.eql(0);
+      (await driver.mobilePopSettings()).should.eql({waitForIdleTimeout: 100, allowInvisibleElements: false});
+      serverSettings.should.eql({waitForIdleTimeout: 100, allowInvisibleElements: false});
+      await driver.mobilePopSettings();
+      serverSettings.waitForIdleTimeout.should.eql(10000);
+    });
+    it('should fail if there is nothing to restore', async function () {
+      await driver.mobilePopSettings().should.be.rejectedWith(/no settings to restore/);
+    });
+    it('should not push invalid settings', async function () {
+      await driver.mobilePushSettings({settings: {waitForIdleTimeout: -1}}).should.be.rejected;
+      await driver.mobilePopSettings().should.be.rejected;
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import sinon from 'sinon';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+import { ADB } from 'appium-adb';
+
+
+describe('Session setup plan', function () {
+  let driver;
+  let chai;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+    driver.adb = new ADB();
+    driver.opts = {
+      app: '/path/to/app.apk',
+      appPackage: 'io.appium.android.apis',
+      skipServerInstallation: true,
+    };
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it('should not touch the installed app if noReset is enabled', async function () {
+    sandbox.stub(driver.adb, 'isAppInstalled').resolves(true);
+    const checkApkCertStub = sandbox.stub(driver.adb, 'checkApkCert');
+    const {app, server} = await driver.mobileGetSessionSetupPlan({capabilities: {noReset: true}});
+    app.map(({action}) => action).should.eql(['none']);
+    server.map(({action}) => action).should.eql(['none']);
+    checkApkCertStub.called.should.be.false;
+  });
+
+  it('should plan the app reinstall by default', async function () {
+    sandbox.stub(driver.adb, 'isAppInstalled').resolves(true);
+    sandbox.stub(driver.adb, 'checkApkCert').resolves(false);
+    const {app} = await driver.mobileGetSessionSetupPlan();
+    app.map(({action, target}) => [action, target]).should.eql([
+      ['sign', '/path/to/app.apk'],
+      ['uninstall', 'io.appium.android.apis'],
+      ['install', '/path/to/app.apk'],
+    ]);
+  });
+
+  it('should plan data clearing on fast reset over the same app version', async function () {
+    sandbox.stub(driver.adb, 'isAppInstalled').resolves(true);
+    sandbox.stub(driver.adb, 'checkApkCert').resolves(true);
+    sandbox.stub(driver.adb, 'getApplicationInstallState')
+      .resolves(driver.adb.APP_INSTALL_STATE.SAME_VERSION_INSTALLED);
+    const {app} = await driver.mobileGetSessionSetupPlan({capabilities: {skipUninstall: true, fastReset: true}});
+    app.map(({action}) => action).should.eql(['none', 'clearData']);
+  });
+
+  it('should accept prefixed capabilities', async function () {
+    sandbox.stub(driver.adb, 'isAppInstalled').resolves(true);
+    const checkApkCertStub = sandbox.stub(driver.adb, 'checkApkCert');
+    const {app} = await driver.mobileGetSessionSetupPlan({capabilities: {'appium:noReset': true}});
+    app.map(({action}) => action).should.eql(['none']);
+    checkApkCertStub.called.should.be.false;
+  });
+
+  it('should derive the package of the overridden app', async function () {
+    sandbox.stub(driver.helpers, 'configureApp').resolves('/path/to/other.apk');
+    sandbox.stub(driver.adb, 'packageAndLaunchActivityFromManifest')
+      .resolves({apkPackage: 'io.appium.other', apkActivity: '.MainActivity'});
+    const isAppInstalledStub = sandbox.stub(driver.adb, 'isAppInstalled').resolves(false);
+    sandbox.stub(driver.adb, 'checkApkCert').resolves(true);
+    const {app} = await driver.mobileGetSessionSetupPlan({capabilities: {'appium:app': 'http://host/other.apk'}});
+    app.map(({action, target}) => [action, target]).should.eql([['install', '/path/to/other.apk']]);
+    isAppInstalledStub.calledOnceWith('io.appium.other').should.be.true;
+  });
+
+  it('should plan server packages reinstall', async function () {
+    driver.opts.skipServerInstallation = false;
+    sandbox.stub(driver.adb, 'isAppInstalled').resolves(false);
+    driver.uiautomator2 = {
+      planServerInstallation: sandbox.stub().resolves({
+        packagesInfo: [{appId: 'io.appium.uiautomator2.server', appPath: 'server.apk', installState: 'notInstalled'}],
+        shouldUninstallServerPackages: false,
+        shouldInstallServerPackages: true,
+      }),
+    };
+    const {server} = await driver.mobileGetSessionSetupPlan();
+    server.map(({action, target}) => [action, target]).should.eql([['install', 'server.apk']]);
+  });
+});
@@ -0,0 +1,226 @@
+import sinon from 'sinon';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+
+const SOURCE = `<?xml version="1.0" encoding="UTF-8"?>
+<hierarchy index="0" rotation="0">
+  <android.widget.FrameLayout index="0" package="io.appium.android.apis" class="android.widget.FrameLayout" bounds="[0,0][1080,2208]" displayed="true">
+    <android.widget.ListView index="0" package="io.appium.android.apis" class="android.widget.ListView" resource-id="io.appium.android.apis:id/list" bounds="[0,100][1080,1100]" displayed="true">
+      <android.widget.TextView index="0" package="io.appium.android.apis" class="android.widget.TextView" text="First" bounds="[0,100][1080,200]" displayed="true"/>
+      <android.widget.TextView index="1" package="io.appium.android.apis" class="android.widget.TextView" text="Hidden" bounds="[0,200][1080,200]" displayed="false"/>
+    </android.widget.ListView>
+  </android.widget.FrameLayout>
+  <android.widget.FrameLayout index="1" package="com.android.systemui" class="android.widget.FrameLayout" bounds="[0,0][1080,100]" displayed="true"/>
+</hierarchy>`;
+
+describe('Source', function () {
+  let driver;
+  let chai;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+    sandbox.stub(driver, 'getPageSource').resolves(SOURCE);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  describe('mobileGetSource', function () {
+    it('should return the unfiltered XML source by default', async function () {
+      const source = await driver.mobileGetSource();
+      source.should.include('text="Hidden"');
+      source.should.include('com.android.systemui');
+    });
+    it('should convert the source to JSON', async function () {
+      const root = await driver.mobileGetSource({format: 'json', maxDepth: 1, attributes: ['package']});
+      root.should.eql({
+        tagName: 'hierarchy',
+        attributes: {},
+        children: [
+          {tagName: 'android.widget.FrameLayout', attributes: {package: 'io.appium.android.apis'}, children: []},
+          {tagName: 'android.widget.FrameLayout', attributes: {package: 'com.android.systemui'}, children: []},
+        ],
+      });
+    });
+    it('should filter elements by visibility and package', async function () {
+      const source = await driver.mobileGetSource({onlyVisible: true, package: 'io.appium.android.apis'});
+      source.should.include('text="First"');
+      source.should.not.include('text="Hidden"');
+      source.should.not.include('com.android.systemui');
+    });
+    it('should return the subtree of the given element', async function () {
+      sandbox.stub(driver, 'getAttribute').callsFake(async (name) => ({
+        class: 'android.widget.ListView',
+        'resource-id': 'io.appium.android.apis:id/list',
+        bounds: '[0,100][1080,1100]',
+      })[name]);
+      const root = await driver.mobileGetSource({format: 'json', elementId: '123', attributes: ['text']});
+      root.tagName.should.eql('android.widget.ListView');
+      root.children.map(({attributes}) => attributes.text).should.eql(['First', 'Hidden']);
+      driver.getAttribute.calledWith('bounds', '123').should.be.true;
+    });
+    it('should fail if the element cannot be identified unambiguously', async function () {
+      driver.getPageSource.resolves(`<?xml version="1.0" encoding="UTF-8"?>
+<hierarchy index="0" rotation="0">
+  <android.widget.FrameLayout index="0" class="android.widget.FrameLayout" bounds="[0,0][1080,2208]">
+    <android.widget.FrameLayout index="0" class="android.widget.FrameLayout" bounds="[0,0][1080,2208]">
+      <android.widget.TextView index="0" class="android.widget.TextView" text="First" bounds="[0,100][1080,200]"/>
+    </android.widget.FrameLayout>
+  </android.widget.FrameLayout>
+</hierarchy>`);
+      sandbox.stub(driver, 'getAttribute').callsFake(async (name) => ({
+        class: 'android.widget.FrameLayout',
+        bounds: '[0,0][1080,2208]',
+      })[name] ?? 'null');
+      await driver.mobileGetSource({elementId: '123'})
+        .should.be.rejectedWith(/'123' cannot be unambiguously found .* 2 elements have the same attributes/);
+    });
+    it('should fail if the element cannot be found in the source', async function () {
+      sandbox.stub(driver, 'getAttribute').callsFake(async (name) => name === 'bounds' ? '[0,0][1,1]' : 'null');
+      await driver.mobileGetSource({elementId: '123'})
+        .should.be.rejectedWith(/'123' cannot be found in the current page source/);
+    });
+    it('should validate arguments', async function () {
+      await driver.mobileGetSource({format: 'yaml'}).should.be.rejectedWith(/'format' must be one of/);
+      await driver.mobileGetSource({maxDepth: -1}).should.be.rejectedWith(/'maxDepth'/);
+      await driver.mobileGetSource({attributes: 'text'}).should.be.rejectedWith(/'attributes'/);
+      driver.getPageSource.called.should.be.false;
+    });
+  });
+
+  describe('source snapshots', function () {
+    const BEFORE = `<hierarchy>
+  <android.widget.LinearLayout class="android.widget.LinearLayout" resource-id="app:id/root" bounds="[0,0][100,100]">
+    <android.widget.Button class="android.widget.Button" resource-id="app:id/ok" text="OK" enabled="false" bounds="[0,0][50,50]"/>
+    <android.widget.CheckBox class="android.widget.CheckBox" resource-id="app:id/agree" checked="false" bounds="[0,50][50,100]"/>
+    <android.widget.TextView class="android.widget.TextView" text="Loading"/>
+  </android.widget.LinearLayout>
+</hierarchy>`;
+    const AFTER = `<hierarchy>
+  <android.widget.LinearLayout class="android.widget.LinearLayout" resource-id="app:id/root" bounds="[0,0][100,100]">
+    <android.widget.CheckBox class="android.widget.CheckBox" resource-id="app:id/agree" checked="true" bounds="[0,50][50,100]"/>
+    <android.widget.Button class="android.widget.Button" resource-id="app:id/ok" text="OK" enabled="true" bounds="[0,0][50,50]"/>
+    <android.widget.ImageView class="android.widget.ImageView" resource-id="app:id/logo"/>
+  </android.widget.LinearLayout>
+</hierarchy>`;
+
+    it('should capture named snapshots', async function () {
+      (await driver.mobileCaptureSourceSnapshot({name: 'start'})).should.include({name: 'start', nodesCount: 6});
+      (await driver.mobileCaptureSourceSnapshot()).name.should.be.a('string').and.not.eql('start');
+      driver._sourceSnapshots.size.should.eql(2);
+    });
+    it('should only keep the most recent snapshots', async function () {
+      for (let i = 0; i < 21; i++) {
+        await driver.mobileCaptureSourceSnapshot({name: String(i)});
+      }
+      driver._sourceSnapshots.size.should.eql(20);
+      driver._sourceSnapshots.has('0').should.be.false;
+    });
+    it('should diff two snapshots', async function () {
+      driver.getPageSource.onFirstCall().resolves(BEFORE).onSecondCall().resolves(AFTER);
+      await driver.mobileCaptureSourceSnapshot({name: 'before'});
+      await driver.mobileCaptureSourceSnapshot({name: 'after'});
+      const diff = await driver.mobileDiffSourceSnapshots({from: 'before', to: 'after'});
+      diff.should.eql({
+        from: 'before',
+        to: 'after',
+        added: [
+          {className: 'android.widget.ImageView', resourceId: 'app:id/logo', path: '0/0/2', text: null},
+        ],
+        removed: [
+          {className: 'android.widget.TextView', resourceId: null, path: '0/0/2', text: 'Loading'},
+        ],
+        moved: [
+          {
+            className: 'android.widget.CheckBox', resourceId: 'app:id/agree', path: '0/0/0', text: null,
+            fromPath: '0/0/1',
+          },
+          {
+            className: 'android.widget.Button', resourceId: 'app:id/ok', path: '0/0/1', text: 'OK',
+            fromPath: '0/0/0',
+          },
+        ],
+        changed: [
+          {
+            className: 'android.widget.CheckBox', resourceId: 'app:id/agree', path: '0/0/0', text: null,
+            changes: [{attribute: 'checked', from: 'false', to: 'true'}],
+          },
+          {
+            className: 'android.widget.Button', resourceId: 'app:id/ok', path: '0/0/1', text: 'OK',
+            changes: [{attribute: 'enabled', from: 'false', to: 'true'}],
+          },
+        ],
+      });
+    });
+    it('should report moved nodes without resource identifiers', async function () {
+      driver.getPageSource.onFirstCall().resolves(`<hierarchy>
+  <android.widget.LinearLayout class="android.widget.LinearLayout">
+    <android.widget.TextView class="android.widget.TextView" text="Title"/>
+    <android.widget.TextView class="android.widget.TextView" text="Step 1"/>
+  </android.widget.LinearLayout>
+</hierarchy>`).onSecondCall().resolves(`<hierarchy>
+  <android.widget.LinearLayout class="android.widget.LinearLayout">
+    <android.widget.TextView class="android.widget.TextView" text="Step 2"/>
+    <android.widget.FrameLayout class="android.widget.FrameLayout">
+      <android.widget.TextView class="android.widget.TextView" text="Title"/>
+    </android.widget.FrameLayout>
+  </android.widget.LinearLayout>
+</hierarchy>`);
+      await driver.mobileCaptureSourceSnapshot({name: 'before'});
+      await driver.mobileCaptureSourceSnapshot({name: 'after'});
+      const diff = await driver.mobileDiffSourceSnapshots({from: 'before', to: 'after'});
+      diff.moved.should.eql([
+        {
+          className: 'android.widget.TextView', resourceId: null, path: '0/0/1/0', text: 'Title',
+          fromPath: '0/0/0',
+        },
+      ]);
+      diff.added.should.eql([
+        {className: 'android.widget.TextView', resourceId: null, path: '0/0/0', text: 'Step 2'},
+        {className: 'android.widget.FrameLayout', resourceId: null, path: '0/0/1', text: null},
+      ]);
+      diff.removed.should.eql([
+        {className: 'android.widget.TextView', resourceId: null, path: '0/0/1', text: 'Step 1'},
+      ]);
+      diff.changed.should.be.empty;
+    });
+    it('should report text changes of nodes without resource identifiers', async function () {
+      driver.getPageSource.onFirstCall().resolves(BEFORE)
+        .onSecondCall().resolves(BEFORE.replace('text="Loading"', 'text="Done"'));
+      await driver.mobileCaptureSourceSnapshot({name: 'before'});
+      await driver.mobileCaptureSourceSnapshot({name: 'after'});
+      const diff = await driver.mobileDiffSourceSnapshots({from: 'before', to: 'after'});
+      diff.changed.should.eql([
+        {
+          className: 'android.widget.TextView', resourceId: null, path: '0/0/2', text: 'Done',
+          changes: [{attribute: 'text', from: 'Loading', to: 'Done'}],
+        },
+      ]);
+      for (const name of ['added', 'removed', 'moved']) {
+        diff[name].should.be.empty;
+      }
+    });
+    it('should diff a snapshot with the current page source', async function () {
+      await driver.mobileCaptureSourceSnapshot({name: 'before'});
+      const diff = await driver.mobileDiffSourceSnapshots({from: 'before'});
+      chai.expect(diff.to).to.be.null;
+      for (const name of ['added', 'removed', 'moved', 'changed']) {
+        diff[name].should.be.empty;
+      }
+    });
+    it('should fail if the snapshot does not exist', async function () {
+      await driver.mobileDiffSourceSnapshots({from: 'missing'})
+        .should.be.rejectedWith(/no source snapshot named "missing"/);
+      await driver.mobileCaptureSourceSnapshot({name: ''}).should.be.rejectedWith(/'name'/);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import sinon from 'sinon';
+import {errors} from 'appium/driver';
+import {AndroidUiautomator2Driver} from '../../../lib/driver';
+
+
+describe('Wait', function () {
+  let driver;
+  let chai;
+  const sandbox = sinon.createSandbox();
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  beforeEach(function () {
+    driver = new AndroidUiautomator2Driver({}, false);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  describe('mobileWaitFor', function () {
+    it('should poll until elements appear', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls')
+        .onFirstCall().resolves([])
+        .onSecondCall().resolves([{ELEMENT: '1'}]);
+      const {attempts, state, elements} = await driver.mobileWaitFor({
+        strategy: 'id', selector: 'foo', condition: 'present', interval: 1,
+      });
+      attempts.should.eql(2);
+      state.should.eql({count: 1});
+      elements.should.eql([{ELEMENT: '1'}]);
+      driver.doFindElementOrEls.firstCall.args[0].should.eql({
+        strategy: 'id', selector: 'foo', multiple: true, context: '',
+      });
+    });
+    it('should wait for the text of the first element', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls').resolves([{ELEMENT: '1'}, {ELEMENT: '2'}]);
+      sandbox.stub(driver, 'getText')
+        .onFirstCall().resolves('Loading')
+        .onSecondCall().resolves('Done: 3 items');
+      (await driver.mobileWaitFor({
+        strategy: 'id', selector: 'foo', condition: 'textMatches', value: '^Done', interval: 1,
+      })).state.should.eql({count: 2, text: 'Done: 3 items'});
+      driver.getText.alwaysCalledWith('1').should.be.true;
+    });
+    it('should treat stale elements as not meeting the condition', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls').resolves([{ELEMENT: '1'}]);
+      sandbox.stub(driver, 'getAttribute')
+        .onFirstCall().rejects(new errors.StaleElementReferenceError())
+        .onSecondCall().resolves('true');
+      (await driver.mobileWaitFor({
+        strategy: 'id', selector: 'foo', condition: 'attributeEquals', attribute: 'checked', value: 'true', interval: 1,
+      })).attempts.should.eql(2);
+    });
+    it('should report the last observed state on timeout', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls').resolves([{ELEMENT: '1'}, {ELEMENT: '2'}]);
+      await driver.mobileWaitFor({
+        strategy: 'id', selector: 'foo', condition: 'count', count: 3, timeout: 20, interval: 5,
+      }).should.be.rejectedWith(/'count' condition has not been met .* Last observed state: {"count":2}/);
+    });
+    it('should not swallow unexpected errors', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls').rejects(new Error('boom'));
+      await driver.mobileWaitFor({strategy: 'id', selector: 'foo', condition: 'absent'})
+        .should.be.rejectedWith('boom');
+    });
+    it('should validate arguments', async function () {
+      sandbox.stub(driver, 'doFindElementOrEls').resolves([]);
+      await driver.mobileWaitFor({strategy: 'id', selector: 'foo', condition: 'visible'})
+        .should.be.rejectedWith(/'condition' must be one of/);
+      await driver.mobileWaitFor({strategy: 'id', selector: 'foo', condition: 'textEquals'})
+        .should.be.rejectedWith(/'value' must be a string/);
+      await driver.mobileWaitFor({strategy: 'id', selector: 'foo', condition: 'textMatches', value: '('})
+        .should.be.rejectedWith(/valid regular expression/);
+      await driver.mobileWaitFor({strategy: 'id', selector: 'foo', condition: 'count'})
+        .should.be.rejectedWith(/'count' must be a non-negative integer/);
+      await driver.mobileWaitFor({strategy: 'id', selector: 'foo', condition: 'present', timeout: -1})
+        .should.be.rejectedWith(/'timeout' must be a non-negative number/);
+      await driver.mobileWaitFor({strategy: 'name', selector: 'foo', condition: 'present'})
+        .should.be.rejectedWith(/not supported/);
+      driver.doFindElementOrEls.called.should.be.false;
+    });
+  });
+});
@@ -32,11 +32,15 @@ describe('css-converter.js', function () {
       ['TextView:iNdEx(4)', 'new UiSelector().classNameMatches("TextView").index(4)'],
       ['*:long-clickable', 'new UiSelector().longClickable(true)'],
       ['*[lOnG-cLiCkAbLe]', 'new UiSelector().longClickable(true)'],
-      ['*:nth-child(3)', 'new UiSelector().index(3)'],
+      ['*:nth-child(3)', 'new UiSelector().index(2)'],
+      ['*:first-child', 'new UiSelector().index(0)'],
+      ['*[text="Foo" i]', 'new UiSelector().textMatches("(?is)Foo")'],
+      ['*[description^="a.b" I]', 'new UiSelector().descriptionMatches("(?is)a\\.b.*")'],
+      ['*[text="Foo" s]', 'new UiSelector().text("Foo")'],
       ['*:instance(3)', 'new UiSelector().instance(3)'],
       [
         'android.widget.TextView[checkable] android.widget.WidgetView[focusable]:nth-child(1)',
-        'new UiSelector().className("android.widget.TextView").checkable(true).childSelector(new UiSelector().className("android.widget.WidgetView").focusable(true).index(1))'
+        'new UiSelector().className("android.widget.TextView").checkable(true).childSelector(new UiSelector().className("android.widget.WidgetView").focusable(true).index(0))'
       ],
       ['* *[clickable=true][focused]', 'new UiSelector().childSelector(new UiSelector().clickable(true).focused(true))'],
       [
@@ -55,6 +59,53 @@ describe('css-converter.js', function () {
       });
     }
   });
+  describe('xpath fallback', function () {
+    const testCases = [
+      [
+        'android.widget.TextView:not([text=""])',
+        '//*[@class="android.widget.TextView"][not(@text="")]',
+      ],
+      [
+        '*:not(.Button, :checked)',
+        '//*[not(@class="Button") and not(@checked="true")]',
+      ],
+      ['*:last-child', '//*[not(following-sibling::*)]'],
+      ['*:only-child', '//*[not(preceding-sibling::*) and not(following-sibling::*)]'],
+      [
+        '*:nth-child(2n+1)',
+        '//*[(count(preceding-sibling::*) + 1 - 1) mod 2 = 0 and (count(preceding-sibling::*) + 1 - 1) div 2 >= 0]',
+      ],
+      [
+        '#list > *:last-child[text$="Foo" i]',
+        '//*[@resource-id="io.appium:id/list"]/*' +
+          '[substring(translate(@text, "ABCDEFGHIJKLMNOPQRSTUVWXYZ", "abcdefghijklmnopqrstuvwxyz"), ' +
+          'string-length(translate(@text, "ABCDEFGHIJKLMNOPQRSTUVWXYZ", "abcdefghijklmnopqrstuvwxyz")) - ' +
+          'string-length("foo") + 1)="foo"][not(following-sibling::*)]',
+      ],
+      ['ListView *:last-child, *:first-child', '//*[@class="ListView"]//*[not(following-sibling::*)] | //*[not(preceding-sibling::*)]'],
+      [`*:not([description='say "hi"'])`, `//*[not(@content-desc='say "hi"')]`],
+      ['*:last-child:index(2)', '//*[not(following-sibling::*)][@index="2"]'],
+      [
+        `*:last-child:index('2" or "1"="1')`,
+        `//*[not(following-sibling::*)][@index=concat("'2", '"', " or ", '"', "1", '"', "=", '"', "1'")]`,
+      ],
+    ];
+    for (const [cssSelector, xpath] of testCases) {
+      it(`should convert '${cssSelector}' to '${xpath}'`, function () {
+        new CssConverter(cssSelector, 'io.appium').toLocator().should.eql({strategy: 'xpath', selector: xpath});
+      });
+    }
+    it('should prefer UiSelector if possible', function () {
+      new CssConverter('*:nth-child(2)').toLocator().should.eql({
+        strategy: '-android uiautomator',
+        selector: 'new UiSelector().index(1)',
+      });
+    });
+    it('should reject constructs which cannot be expressed as XPath', function () {
+      (() => new CssConverter('*:not(*:instance(1))').toLocator()).should.throw(/cannot be expressed as XPath/);
+      (() => new CssConverter('*:not(* > *)').toLocator()).should.throw(/Only simple selectors/);
+    });
+  });
   describe('unsupported css', function () {
     const testCases = [
       '*[checked="ItS ChEcKeD"]',
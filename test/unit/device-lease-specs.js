@@ -0,0 +1,78 @@
+import { DeviceLease } from '../../lib/device-lease';
+import { fs, logger } from 'appium/support';
+import B from 'bluebird';
+
+const log = logger.getLogger('DeviceLease');
+const UDID = 'emulator-device-lease-specs';
+
+describe('device-lease.js', function () {
+  let chai;
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  afterEach(async function () {
+    await fs.rimraf(new DeviceLease(UDID, '', log).leasePath);
+  });
+
+  it('should not allow another session to lease a busy device', async function () {
+    const lease = new DeviceLease(UDID, 'first', log);
+    await lease.acquire();
+    await new DeviceLease(UDID, 'second', log).acquire().should.be.rejectedWith(/in use by the session 'first'/);
+  });
+
+  it('should allow to lease the device after it is released', async function () {
+    const lease = new DeviceLease(UDID, 'first', log);
+    await lease.acquire();
+    await lease.release();
+    await new DeviceLease(UDID, 'second', log).acquire().should.be.fulfilled;
+  });
+
+  it('should not release the lease owned by another session', async function () {
+    await new DeviceLease(UDID, 'first', log).acquire();
+    await new DeviceLease(UDID, 'second', log).release();
+    await new DeviceLease(UDID, 'third', log).acquire().should.be.rejectedWith(/'first'/);
+  });
+
+  it('should override leases, which have not been renewed for a while', async function () {
+    const lease = new DeviceLease(UDID, 'second', log);
+    const renewedAt = new Date(Date.now() - 120000).toISOString();
+    await fs.writeFile(lease.leasePath, JSON.stringify({
+      sessionId: 'first',
+      pid: process.pid,
+      acquiredAt: renewedAt,
+      heartbeatAt: renewedAt,
+    }), 'utf8');
+    await lease.acquire().should.be.fulfilled;
+    await lease.release();
+  });
+
+  it('should only renew the lease while the session is active', async function () {
+    let isSessionActive = true;
+    const lease = new DeviceLease(UDID, 'first', log, () => isSessionActive);
+    await lease.acquire();
+    const {heartbeatAt} = JSON.parse(await fs.readFile(lease.leasePath, 'utf8'));
+    await B.delay(5);
+    await lease._renew();
+    JSON.parse(await fs.readFile(lease.leasePath, 'utf8')).heartbeatAt.should.not.eql(heartbeatAt);
+    isSessionActive = false;
+    await lease._renew();
+    chai.expect(lease._heartbeatTimer).to.be.undefined;
+  });
+
+  it('should override stale leases', async function () {
+    const lease = new DeviceLease(UDID, 'second', log);
+    await fs.writeFile(lease.leasePath, JSON.stringify({
+      sessionId: 'first',
+      // this process id is above the maximum possible value on all supported platforms
+      pid: 2 ** 30,
+      acquiredAt: new Date().toISOString(),
+    }), 'utf8');
+    await lease.acquire().should.be.fulfilled;
+  });
+});
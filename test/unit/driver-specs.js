@@ -2,12 +2,16 @@ import {AndroidUiautomator2Driver} from '../../lib/driver';
 import sinon from 'sinon';
 import path from 'path';
 import B from 'bluebird';
+import _ from 'lodash';
 import {ADB} from 'appium-adb';
+import {DeviceLease} from '../../lib/device-lease';
 
 const sandbox = sinon.createSandbox();
 
 function defaultStub(driver) {
   sandbox.stub(driver, 'getDeviceDetails');
+  sandbox.stub(DeviceLease.prototype, 'acquire');
+  sandbox.stub(DeviceLease.prototype, 'release');
   const adb = new ADB();
   sandbox.stub(driver, 'createADB').returns(Promise.resolve(adb));
   sandbox.mock(driver).expects('getDeviceInfoFromCaps').once().returns(Promise.resolve({
@@ -88,6 +92,45 @@ describe('driver.js', function () {
     });
   });
 
+  describe('sessionSetupPlanOnly', function () {
+    it('should only return the session setup plan', async function () {
+      let driver = new AndroidUiautomator2Driver({}, false);
+      defaultStub(driver);
+      sandbox.stub(driver, 'allocateSystemPort').callsFake(async () => {
+        driver.systemPort = 8200;
+      });
+      const plan = {
+        app: [{action: 'none', target: 'io.appium.android.apis', reason: 'foo'}],
+        server: [{action: 'install', target: 'server.apk', reason: 'bar'}],
+      };
+      const planStub = sandbox.stub(driver, 'mobileGetSessionSetupPlan').resolves(plan);
+      const startSessionStub = sandbox.stub(driver, 'startUiAutomator2Session');
+      const [, caps] = await driver.createSession(null, null, {
+        firstMatch: [{}],
+        alwaysMatch: {
+          'appium:appPackage': 'io.appium.android.apis',
+          'appium:sessionSetupPlanOnly': true,
+        },
+      });
+      caps.sessionSetupPlan.should.eql(plan);
+      planStub.calledOnceWith({capabilities: {appPackage: 'io.appium.android.apis'}}).should.be.true;
+      startSessionStub.called.should.be.false;
+      driver.uiautomator2.should.exist;
+      await driver.executeCommand('getPageSource')
+        .should.be.rejectedWith(/'sessionSetupPlanOnly' capability enabled/);
+
+      sandbox.stub(driver.adb, 'forceStop');
+      sandbox.stub(driver.adb, 'setDefaultHiddenApiPolicy');
+      sandbox.stub(driver.adb, 'removePortForward');
+      await driver.deleteSession();
+      driver.adb.forceStop.called.should.be.false;
+      driver.adb.setDefaultHiddenApiPolicy.called.should.be.false;
+      const steps = _.keyBy(driver.lastTeardownReport.steps, 'name');
+      steps.forceStopApp.status.should.eql('skipped');
+      steps.uninstallApp.status.should.eql('skipped');
+    });
+  });
+
   describe('checkAppPresent', function () {
     it('should resolve if app present', async function () {
       let driver = new AndroidUiautomator2Driver({}, false);
@@ -292,6 +335,58 @@ describe('driver.js', function () {
     });
   });
 
+  describe('allocateMjpegServerPort', function () {
+    let driver;
+    beforeEach(function () {
+      driver = new AndroidUiautomator2Driver({}, false);
+      driver.adb = new ADB();
+      sandbox.stub(driver.adb, 'forwardPort');
+    });
+
+    it('should not forward any port by default', async function () {
+      await driver.allocateMjpegServerPort();
+      driver.adb.forwardPort.called.should.be.false;
+      chai.expect(driver.mjpegServerPort).to.be.undefined;
+    });
+    it('should forward the explicitly provided port', async function () {
+      driver.opts.mjpegServerPort = 45100;
+      await driver.allocateMjpegServerPort();
+      driver.adb.forwardPort.calledOnceWith(45100, 7810).should.be.true;
+      driver.mjpegServerPort.should.eql(45100);
+    });
+    it('should select a port from the provided range', async function () {
+      driver.opts.mjpegServerPortRange = [45100, 45199];
+      await driver.allocateMjpegServerPort();
+      driver.mjpegServerPort.should.be.within(45100, 45199);
+      driver.adb.forwardPort.calledOnceWith(driver.mjpegServerPort, 7810).should.be.true;
+    });
+    it('should reject an invalid port range', async function () {
+      driver.opts.mjpegServerPortRange = [45199, 45100];
+      await driver.allocateMjpegServerPort().should.be.rejectedWith(/mjpegServerPortRange/);
+      driver.adb.forwardPort.called.should.be.false;
+    });
+  });
+
+  describe('getInitialSettings', function () {
+    let driver;
+    beforeEach(function () {
+      driver = new AndroidUiautomator2Driver({}, false);
+    });
+
+    it('should return an empty map if the capability is not set', function () {
+      driver.opts = {};
+      driver.getInitialSettings().should.eql({});
+    });
+    it('should return valid settings', function () {
+      driver.opts = {initialSettings: {waitForIdleTimeout: 0}};
+      driver.getInitialSettings().should.eql({waitForIdleTimeout: 0});
+    });
+    it('should throw if settings are not valid', function () {
+      driver.opts = {initialSettings: {waitForIdleTimeout: 'fast'}};
+      (() => driver.getInitialSettings()).should.throw(/'initialSettings' capability value is not valid/);
+    });
+  });
+
   describe('deleteSession', function () {
     let driver;
     beforeEach(function () {
@@ -316,5 +411,40 @@ describe('driver.js', function () {
       await driver.deleteSession();
       driver.adb.setDefaultHiddenApiPolicy.calledOnce.should.be.false;
     });
+    it('should run teardown hooks and report their outcomes', async function () {
+      sandbox.stub(driver.adb, 'getApiLevel').returns(27);
+      const calls = [];
+      driver.registerTeardownHook('first', () => {
+        calls.push('first');
+        throw new Error('boom');
+      });
+      driver.registerTeardownHook('second', async () => {
+        calls.push('second');
+      });
+      await driver.deleteSession();
+      calls.should.eql(['first', 'second']);
+      const steps = _.keyBy(driver.lastTeardownReport.steps, 'name');
+      steps['hook:first'].status.should.eql('failed');
+      steps['hook:first'].error.should.eql('boom');
+      steps['hook:second'].status.should.eql('succeeded');
+      steps.restoreHiddenApiPolicy.status.should.eql('skipped');
+      steps.deleteServerSession.status.should.eql('skipped');
+      driver.teardownHooks.size.should.eql(0);
+    });
+    it('should skip stopping media projection recording if it is not running', async function () {
+      sandbox.stub(driver.adb, 'getApiLevel').returns(28);
+      sandbox.stub(driver.adb, 'setDefaultHiddenApiPolicy');
+      sandbox.stub(driver, 'mobileIsMediaProjectionRecordingRunning').resolves(false);
+      sandbox.stub(driver, 'mobileStopMediaProjectionRecording');
+      await driver.deleteSession();
+      const steps = _.keyBy(driver.lastTeardownReport.steps, 'name');
+      steps.stopMediaProjectionRecording.status.should.eql('skipped');
+      steps.restoreHiddenApiPolicy.status.should.eql('succeeded');
+      driver.mobileStopMediaProjectionRecording.called.should.be.false;
+    });
+    it('should not register invalid teardown hooks', function () {
+      (() => driver.registerTeardownHook('', _.noop)).should.throw(/non-empty string/);
+      (() => driver.registerTeardownHook('foo', 'bar')).should.throw(/must be a function/);
+    });
   });
 });
@@ -0,0 +1,71 @@
+import {
+  LookupSnapshot,
+  isSnapshotElementId,
+  isSnapshotPreservingCommand,
+} from '../../lib/lookup-snapshot';
+
+const SOURCE = `<?xml version="1.0" encoding="UTF-8"?>
+<hierarchy index="0" rotation="0" width="1080" height="2208">
+  <android.widget.FrameLayout index="0" class="android.widget.FrameLayout" bounds="[0,0][1080,2208]">
+    <android.widget.ListView index="0" class="android.widget.ListView" resource-id="io.appium:id/list" bounds="[0,100][1080,1100]">
+      <android.widget.TextView index="0" class="android.widget.TextView" text="First" bounds="[0,100][1080,200]"/>
+      <android.widget.TextView index="1" class="android.widget.TextView" text="Second" bounds="[0,200][1080,300]"/>
+    </android.widget.ListView>
+    <android.widget.TextView index="1" class="android.widget.TextView" text="Footer" bounds="[0,2100][1080,2208]"/>
+  </android.widget.FrameLayout>
+</hierarchy>`;
+
+describe('lookup-snapshot.js', function () {
+  let chai;
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  describe('find', function () {
+    it('should return handles of matched elements', function () {
+      const [first, ...rest] = new LookupSnapshot(SOURCE).find('//android.widget.TextView');
+      rest.map(({attributes}) => attributes.text).should.eql(['Second', 'Footer']);
+      isSnapshotElementId(first.elementId).should.be.true;
+      first.tagName.should.eql('android.widget.TextView');
+      first.attributes.text.should.eql('First');
+      first.rect.should.eql({x: 0, y: 100, width: 1080, height: 100});
+    });
+    it('should only return descendants of the context element', function () {
+      const snapshot = new LookupSnapshot(SOURCE);
+      const [list] = snapshot.find('//*[@resource-id="io.appium:id/list"]');
+      snapshot.find('//android.widget.TextView', list.elementId)
+        .map(({attributes}) => attributes.text).should.eql(['First', 'Second']);
+      snapshot.find('./*[2]', list.elementId)
+        .map(({attributes}) => attributes.text).should.eql(['Second']);
+    });
+    it('should return an empty list if nothing matches', function () {
+      new LookupSnapshot(SOURCE).find('//android.widget.Button').should.be.empty;
+    });
+    it('should reject invalid selectors', function () {
+      const snapshot = new LookupSnapshot(SOURCE);
+      (() => snapshot.find('//*[')).should.throw(/Invalid XPath selector/);
+      (() => snapshot.find('count(//*)')).should.throw(/must select elements/);
+    });
+    it('should reject context elements of other snapshots', function () {
+      const [list] = new LookupSnapshot(SOURCE).find('//android.widget.ListView');
+      (() => new LookupSnapshot(SOURCE).find('//*', list.elementId))
+        .should.throw(/does not belong to the current lookup snapshot/);
+    });
+  });
+
+  describe('isSnapshotPreservingCommand', function () {
+    it('should only preserve the snapshot after read-only commands', function () {
+      isSnapshotPreservingCommand('findElements', []).should.be.true;
+      isSnapshotPreservingCommand('getText', []).should.be.true;
+      isSnapshotPreservingCommand('click', []).should.be.false;
+      isSnapshotPreservingCommand('execute', []).should.be.false;
+      isSnapshotPreservingCommand('proxyReqRes', [{method: 'GET'}]).should.be.true;
+      isSnapshotPreservingCommand('proxyReqRes', [{method: 'POST'}]).should.be.false;
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { ProxyStats, toErrorStatus } from '../../lib/proxy-stats';
+import { errors } from 'appium/driver';
+
+describe('proxy-stats.js', function () {
+  let chai;
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  it('should collapse element identifiers in routes', function () {
+    const stats = new ProxyStats();
+    stats.record('post', '/session/abc/element/123/click', 10);
+    stats.record('POST', '/session/abc/element/456/click', 30);
+    stats.record('GET', '/session/abc/element/active', 5);
+    Object.keys(stats.toJSON()).should.eql([
+      'POST /element/:elementId/click',
+      'GET /element/active',
+    ]);
+  });
+
+  it('should count requests with and without session prefixes as the same route', function () {
+    const stats = new ProxyStats();
+    stats.record('POST', '/element', 10);
+    stats.record('POST', '/wd/hub/session/abc/element', 10);
+    stats.record('POST', '/session/def/element?foo=bar', 10);
+    stats.record('DELETE', '/session/abc', 10);
+    stats.toJSON().should.have.keys('POST /element', 'DELETE /');
+    stats.toJSON()['POST /element'].count.should.eql(3);
+  });
+
+  it('should calculate latency percentiles and count errors', function () {
+    const stats = new ProxyStats();
+    for (let i = 1; i <= 100; i++) {
+      stats.record('GET', '/session/abc/source', i, i > 98 ? 500 : null);
+    }
+    stats.record('GET', '/session/abc/source', 1000, 'unknown');
+    stats.toJSON()['GET /source'].should.eql({
+      count: 101,
+      totalMs: 6050,
+      errors: {500: 2, unknown: 1},
+      latencyMs: {p50: 51, p95: 96, max: 1000},
+    });
+    stats.toSummary().should.include('GET /source: 101 calls');
+  });
+
+  it('should retrieve status codes of proxy errors', function () {
+    toErrorStatus(new errors.ProxyRequestError('', {value: {error: 'no such element'}}, 404)).should.eql(404);
+    toErrorStatus(new Error('ECONNREFUSED')).should.eql('unknown');
+  });
+});
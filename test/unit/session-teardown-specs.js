@@ -0,0 +1,36 @@
+import { SessionTeardown } from '../../lib/session-teardown';
+import log from '../../lib/logger';
+
+describe('session-teardown.js', function () {
+  let chai;
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  it('should record outcomes of all steps', async function () {
+    const teardown = new SessionTeardown(log);
+    await teardown.run('first', async () => {}).should.eventually.be.true;
+    await teardown.run('second', () => {
+      throw new Error('boom');
+    }).should.eventually.be.false;
+    teardown.skip('third', 'not needed');
+    teardown.toJSON().steps.map(({name, status}) => [name, status]).should.eql([
+      ['first', 'succeeded'],
+      ['second', 'failed'],
+      ['third', 'skipped'],
+    ]);
+  });
+
+  it('should summarize failed steps', async function () {
+    const teardown = new SessionTeardown(log);
+    await teardown.run('broken', async () => {
+      throw new Error('boom');
+    });
+    teardown.toSummary().should.match(/succeeded: 0, failed: 1, skipped: 0\. Failed steps: broken$/);
+  });
+});
@@ -0,0 +1,41 @@
+import { StartupMetrics } from '../../lib/startup-metrics';
+
+describe('startup-metrics.js', function () {
+  let chai;
+
+  before(async function () {
+    chai = await import('chai');
+    const chaiAsPromised = await import('chai-as-promised');
+
+    chai.should();
+    chai.use(chaiAsPromised.default);
+  });
+
+  it('should record measured steps with their results', async function () {
+    const metrics = new StartupMetrics();
+    (await metrics.measure('first', async () => 'foo')).should.eql('foo');
+    await metrics.scope('phase').measure('second', () => 1).should.eventually.eql(1);
+    const {steps, finished} = metrics.toJSON();
+    finished.should.be.false;
+    steps.map(({name}) => name).should.eql(['first', 'phase.second']);
+    steps.every(({succeeded}) => succeeded).should.be.true;
+  });
+
+  it('should record failed steps', async function () {
+    const metrics = new StartupMetrics();
+    await metrics.measure('broken', async () => {
+      throw new Error('boom');
+    }).should.be.rejectedWith(/boom/);
+    metrics.toJSON().steps.should.have.length(1);
+    metrics.toJSON().steps[0].succeeded.should.be.false;
+  });
+
+  it('should freeze the total duration once finished', async function () {
+    const metrics = new StartupMetrics();
+    metrics.finish();
+    const {totalMs, finished} = metrics.toJSON();
+    finished.should.be.true;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    metrics.toJSON().totalMs.should.eql(totalMs);
+  });
+});
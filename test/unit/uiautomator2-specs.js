@@ -1,5 +1,8 @@
 import { ADB } from 'appium-adb';
+import { JWProxy, errors } from 'appium/driver';
 import { withMocks } from '@appium/test-support';
+import sinon from 'sinon';
+import { EventEmitter } from 'events';
 import {
   UiAutomator2Server, INSTRUMENTATION_TARGET, SERVER_TEST_PACKAGE_ID
 } from '../../lib/uiautomator2';
@@ -327,4 +330,294 @@ describe('UiAutomator2', function () {
       await uiautomator2.installServerApk();
     });
   }));
+
+  describe('crash recovery', function () {
+    const sandbox = sinon.createSandbox();
+    let proxyCommandStub;
+
+    beforeEach(function () {
+      proxyCommandStub = sandbox.stub(JWProxy.prototype, 'proxyCommand');
+    });
+    afterEach(function () {
+      sandbox.restore();
+    });
+
+    it('should fail if the instrumentation has exited and recovery is disabled', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions
+      });
+      uiautomator2.jwproxy.didInstrumentationExit = true;
+      await uiautomator2.jwproxy.command('/status', 'GET')
+        .should.be.rejectedWith(/instrumentation process is not running/);
+      proxyCommandStub.called.should.be.false;
+    });
+
+    it('should recover the session and apply settings before proxying the command', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        crashRecovery: true,
+        getSettings: () => ({waitForIdleTimeout: 100}),
+      });
+      uiautomator2.sessionCaps = {platformName: 'Android'};
+      sandbox.stub(uiautomator2, 'cleanupAutomationLeftovers');
+      const launchStub = sandbox.stub(uiautomator2, 'launchInstrumentation').callsFake(async () => {
+        uiautomator2.jwproxy.didInstrumentationExit = false;
+      });
+      proxyCommandStub.resolves([{statusCode: 200}, {value: 'ok'}]);
+      uiautomator2.jwproxy.didInstrumentationExit = true;
+
+      (await uiautomator2.jwproxy.command('/status', 'GET')).should.eql('ok');
+      launchStub.calledOnce.should.be.true;
+      proxyCommandStub.firstCall.args.should.eql([
+        '/session', 'POST', {capabilities: {firstMatch: [{platformName: 'Android'}], alwaysMatch: {}}}
+      ]);
+      proxyCommandStub.secondCall.args.should.eql([
+        '/appium/settings', 'POST', {settings: {waitForIdleTimeout: 100}}
+      ]);
+      proxyCommandStub.thirdCall.args.should.eql(['/status', 'GET', null]);
+    });
+
+    it('should recover the session and retry the request failed because of the crash', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        crashRecovery: true,
+        getSettings: () => ({waitForIdleTimeout: 100}),
+      });
+      uiautomator2.sessionCaps = {platformName: 'Android'};
+      uiautomator2.jwproxy.sessionId = 'abc';
+      sandbox.stub(uiautomator2, 'cleanupAutomationLeftovers');
+      const launchStub = sandbox.stub(uiautomator2, 'launchInstrumentation').callsFake(async () => {
+        uiautomator2.jwproxy.didInstrumentationExit = false;
+      });
+      proxyCommandStub
+        .onFirstCall().callsFake(async () => {
+          uiautomator2.jwproxy.didInstrumentationExit = true;
+          throw new errors.ProxyRequestError('Could not proxy command to the remote server. Original error: socket hang up');
+        })
+        .resolves([{statusCode: 200}, {value: 'ok'}]);
+
+      (await uiautomator2.jwproxy.command('/element/def/click', 'POST', {})).should.eql('ok');
+      launchStub.calledOnce.should.be.true;
+      proxyCommandStub.args.map(([url]) => url).should.eql([
+        '/element/def/click', '/session', '/appium/settings', '/element/def/click',
+      ]);
+    });
+
+    it('should not retry requests failed while the instrumentation is running', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        crashRecovery: true,
+      });
+      uiautomator2.sessionCaps = {};
+      uiautomator2.jwproxy.sessionId = 'abc';
+      const recoverStub = sandbox.stub(uiautomator2, 'recoverSession');
+      proxyCommandStub.rejects(new errors.ProxyRequestError('The request has failed', {
+        value: {error: 'no such element', message: 'The element is missing'},
+      }, 404));
+
+      await uiautomator2.jwproxy.command('/element', 'POST', {strategy: 'id', selector: 'foo'})
+        .should.be.rejectedWith(errors.NoSuchElementError);
+      proxyCommandStub.calledOnce.should.be.true;
+      recoverStub.called.should.be.false;
+    });
+
+    it('should report elements located before the crash as stale', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        crashRecovery: true,
+      });
+      uiautomator2.sessionCaps = {};
+      sandbox.stub(uiautomator2, 'startSession').callsFake(async () => {
+        uiautomator2.jwproxy.didInstrumentationExit = false;
+      });
+      proxyCommandStub.resolves([{statusCode: 200}, {value: {ELEMENT: 'abc'}}]);
+      await uiautomator2.jwproxy.command('/element', 'POST', {strategy: 'id', selector: 'foo'});
+      uiautomator2.jwproxy.didInstrumentationExit = true;
+
+      await uiautomator2.jwproxy.command('/element/abc/click', 'POST', {})
+        .should.be.rejectedWith(errors.StaleElementReferenceError, /before the UiAutomator2 server crash/);
+    });
+    it('should only remember the most recent element identifiers', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {adb, ...defaultUIA2ServerOptions});
+      const elements = Array.from({length: 5001}, (v, index) => ({ELEMENT: `el${index}`}));
+      proxyCommandStub.resolves([{statusCode: 200}, {value: elements}]);
+      await uiautomator2.jwproxy.command('/elements', 'POST', {strategy: 'id', selector: 'foo'});
+      uiautomator2.jwproxy.knownElementIds.size.should.eql(5000);
+      uiautomator2.jwproxy.knownElementIds.has('el0').should.be.false;
+      uiautomator2.jwproxy.invalidateKnownElements();
+      uiautomator2.jwproxy.staleElementIds.size.should.eql(5000);
+      uiautomator2.jwproxy.staleElementIds.has('el5000').should.be.true;
+    });
+  });
+
+  describe('proxy statistics', function () {
+    const sandbox = sinon.createSandbox();
+
+    afterEach(function () {
+      sandbox.restore();
+    });
+
+    it('should not count status probes sent before the session is created', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {adb, ...defaultUIA2ServerOptions});
+      const proxyCommandStub = sandbox.stub(JWProxy.prototype, 'proxyCommand')
+        .onFirstCall().rejects(new errors.ProxyRequestError('Could not proxy command to the remote server'))
+        .resolves([{statusCode: 200}, {value: {}}]);
+      await uiautomator2.jwproxy.command('/status', 'GET').should.be.rejected;
+      await uiautomator2.jwproxy.command('/status', 'GET');
+      uiautomator2.jwproxy.sessionId = 'abc';
+      await uiautomator2.jwproxy.command('/status', 'GET');
+      proxyCommandStub.callCount.should.eql(3);
+      uiautomator2.jwproxy.stats.toJSON().should.have.keys('GET /status');
+      uiautomator2.jwproxy.stats.toJSON()['GET /status'].count.should.eql(1);
+    });
+  });
+
+  describe('stale element recovery', function () {
+    const sandbox = sinon.createSandbox();
+    const staleError = new errors.ProxyRequestError('The request has failed', {
+      value: {error: 'stale element reference', message: 'The element is stale'},
+    }, 404);
+    let proxyCommandStub;
+
+    beforeEach(function () {
+      proxyCommandStub = sandbox.stub(JWProxy.prototype, 'proxyCommand');
+    });
+    afterEach(function () {
+      sandbox.restore();
+    });
+
+    it('should retry the command once with the relocated element', async function () {
+      const relocateStaleElement = sandbox.stub().resolves('def');
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        relocateStaleElement,
+      });
+      proxyCommandStub
+        .onFirstCall().rejects(staleError)
+        .onSecondCall().resolves([{statusCode: 200}, {value: null}]);
+
+      await uiautomator2.jwproxy.command('/element/abc/click', 'POST', {element: 'abc'});
+      relocateStaleElement.calledOnceWith('abc').should.be.true;
+      proxyCommandStub.secondCall.args.should.eql(['/element/def/click', 'POST', {element: 'def'}]);
+    });
+
+    it('should return the original error if the element cannot be relocated', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        relocateStaleElement: async () => null,
+      });
+      proxyCommandStub.rejects(staleError);
+
+      await uiautomator2.jwproxy.command('/element/abc/text', 'GET')
+        .should.be.rejectedWith(errors.StaleElementReferenceError);
+      proxyCommandStub.calledOnce.should.be.true;
+    });
+
+    it('should not relocate elements on other errors', async function () {
+      const relocateStaleElement = sandbox.stub().resolves('def');
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        relocateStaleElement,
+      });
+      proxyCommandStub.rejects(new errors.ProxyRequestError('The request has failed', {
+        value: {error: 'no such element', message: 'The element is missing'},
+      }, 404));
+
+      await uiautomator2.jwproxy.command('/element/abc/text', 'GET')
+        .should.be.rejectedWith(errors.NoSuchElementError);
+      relocateStaleElement.called.should.be.false;
+    });
+  });
+
+  describe('external server', function () {
+    const sandbox = sinon.createSandbox();
+
+    afterEach(function () {
+      sandbox.restore();
+    });
+
+    it('should not start the instrumentation for an already running server', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        scheme: 'https',
+        base: '/uia2',
+        externalServer: true,
+      });
+      uiautomator2.jwproxy.scheme.should.eql('https');
+      uiautomator2.jwproxy.base.should.eql('/uia2');
+      const cleanupStub = sandbox.stub(uiautomator2, 'cleanupAutomationLeftovers');
+      const startInstrumentationStub = sandbox.stub(uiautomator2, 'startInstrumentationProcess');
+      const commandStub = sandbox.stub(JWProxy.prototype, 'command').resolves({});
+
+      await uiautomator2.startSession({platformName: 'Android'});
+      cleanupStub.called.should.be.false;
+      startInstrumentationStub.called.should.be.false;
+      commandStub.firstCall.args.should.eql(['/status', 'GET', null]);
+      commandStub.secondCall.args[0].should.eql('/session');
+    });
+  });
+
+  describe('instrumentation process', function () {
+    const sandbox = sinon.createSandbox();
+
+    afterEach(function () {
+      sandbox.restore();
+    });
+
+    it('should pass custom instrumentation options to am instrument', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        instrumentationArgs: {debug: true, 'custom.name': 'foo bar'},
+        instrumentationRunner: 'com.example.CustomRunner',
+        instrumentationUser: '10',
+      });
+      const proc = {on: sandbox.stub(), once: sandbox.stub(), start: sandbox.stub().resolves()};
+      const createSubProcessStub = sandbox.stub(adb, 'createSubProcess').returns(proc);
+
+      await uiautomator2.startInstrumentationProcess();
+      createSubProcessStub.firstCall.args[0].should.eql([
+        'shell', 'am', 'instrument', '-w', '--user', '10',
+        '-e', 'disableAnalytics', 'true',
+        '-e', 'debug', 'true',
+        '-e', 'custom.name', `'foo bar'`,
+        `${SERVER_TEST_PACKAGE_ID}/com.example.CustomRunner`,
+      ]);
+    });
+
+    it('should keep the instrumentation output', async function () {
+      uiautomator2 = new UiAutomator2Server(log, {adb, ...defaultUIA2ServerOptions});
+      const proc = new EventEmitter();
+      proc.start = sandbox.stub().resolves();
+      sandbox.stub(adb, 'createSubProcess').returns(proc);
+
+      await uiautomator2.startInstrumentationProcess();
+      proc.emit('line-stdout', 'INSTRUMENTATION_STATUS: foo');
+      proc.emit('line-stderr', 'java.lang.RuntimeException: bar');
+      proc.emit('exit', 1, null);
+      uiautomator2.getInstrumentationLogs().map(({message}) => message).should.eql([
+        'INSTRUMENTATION_STATUS: foo',
+        'java.lang.RuntimeException: bar',
+        'The process has exited with code 1, signal null',
+      ]);
+      uiautomator2.jwproxy.didInstrumentationExit.should.be.true;
+    });
+  });
+
+  describe('health watchdog', function () {
+    it('should notify about server health changes', async function () {
+      const onHealthChange = sinon.spy();
+      uiautomator2 = new UiAutomator2Server(log, {
+        adb, ...defaultUIA2ServerOptions,
+        healthCheckInterval: 1000,
+        onHealthChange,
+      });
+      uiautomator2.jwproxy.didInstrumentationExit = true;
+
+      (await uiautomator2.checkHealth()).healthy.should.be.false;
+      await uiautomator2.checkHealth();
+      onHealthChange.calledOnce.should.be.true;
+      onHealthChange.firstCall.args[0].error.should.match(/instrumentation process is not running/);
+      uiautomator2.healthHistory.should.have.length(2);
+    });
+  });
 });